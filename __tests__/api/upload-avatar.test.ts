@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createClient } from '@supabase/supabase-js'
+import { POST } from '@/app/api/upload-avatar/route'
+import { sessionCookie, uploadRequest, type StubClient } from '../helpers/supabase-stub'
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createStubClient } = await import('../helpers/supabase-stub')
+  const client = createStubClient()
+  return { createClient: () => client }
+})
+
+vi.mock('@/lib/image-processing', () => ({
+  processImage: vi.fn(async () => ({
+    success: true,
+    image: { buffer: Buffer.from('jpeg'), contentType: 'image/jpeg', extension: 'jpg', width: 512, height: 512 }
+  })),
+  encodeVariant: vi.fn(async (_source: Buffer, width: number) => ({
+    buffer: Buffer.from('webp'), contentType: 'image/webp', extension: 'webp', width, height: width, format: 'webp'
+  }))
+}))
+
+const client = createClient('', '') as unknown as StubClient
+
+const URL = 'http://localhost/api/upload-avatar'
+
+describe('POST /api/upload-avatar', () => {
+  beforeEach(() => {
+    client.bucket.upload.mockClear()
+  })
+
+  it('rejects requests without a session', async () => {
+    const response = await POST(uploadRequest(URL, { fields: { userId: 'alice-id' } }))
+
+    expect(response.status).toBe(401)
+    expect(client.bucket.upload).not.toHaveBeenCalled()
+  })
+
+  it('rejects a token the auth server does not recognise', async () => {
+    const response = await POST(uploadRequest(URL, { headers: { Cookie: sessionCookie('forged') } }))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('rejects replacing another user\'s avatar', async () => {
+    const response = await POST(uploadRequest(URL, {
+      headers: { Authorization: 'Bearer token-bob' },
+      fields: { userId: 'alice-id' }
+    }))
+
+    expect(response.status).toBe(403)
+    expect(client.bucket.upload).not.toHaveBeenCalled()
+  })
+
+  it('accepts a bearer token and stores the avatar under its user', async () => {
+    const response = await POST(uploadRequest(URL, {
+      headers: { Authorization: 'Bearer token-alice' },
+      fields: { userId: 'alice-id' }
+    }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).url).toMatch(/^https:\/\/storage\.test\/alice-id\/\d+\/512\.jpg$/)
+  })
+
+  it('accepts a session cookie', async () => {
+    const response = await POST(uploadRequest(URL, { headers: { Cookie: sessionCookie('token-bob') } }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).url).toContain('/bob-id/')
+  })
+})
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createClient } from '@supabase/supabase-js'
+import { POST } from '@/app/api/upload/route'
+import { sessionCookie, uploadRequest, type StubClient } from '../helpers/supabase-stub'
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createStubClient } = await import('../helpers/supabase-stub')
+  const client = createStubClient()
+  return { createClient: () => client }
+})
+
+// Image handling has its own concerns; here any file passes as a tiny JPEG
+vi.mock('@/lib/image-processing', () => ({
+  processImage: vi.fn(async () => ({
+    success: true,
+    image: { buffer: Buffer.from('jpeg'), contentType: 'image/jpeg', extension: 'jpg', width: 800, height: 600 }
+  })),
+  generatePhotoVariants: vi.fn(async () => []),
+  createPlaceholder: vi.fn(async () => ({ blurDataUrl: 'data:image/webp;base64,', dominantColor: '#000000' })),
+  computeImageHash: vi.fn(async () => '0000000000000000')
+}))
+
+vi.mock('@/lib/duplicate-detection', () => ({
+  findSimilarPhotos: vi.fn(async () => []),
+  recordImageHash: vi.fn(async () => undefined),
+  flagNearDuplicate: vi.fn(async () => undefined)
+}))
+
+const client = createClient('', '') as unknown as StubClient
+
+const URL = 'http://localhost/api/upload'
+
+describe('POST /api/upload', () => {
+  beforeEach(() => {
+    client.bucket.upload.mockClear()
+  })
+
+  it('rejects requests without a session', async () => {
+    const response = await POST(uploadRequest(URL))
+
+    expect(response.status).toBe(401)
+    expect(client.bucket.upload).not.toHaveBeenCalled()
+  })
+
+  it('rejects a token the auth server does not recognise', async () => {
+    const response = await POST(uploadRequest(URL, { headers: { Authorization: 'Bearer forged' } }))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('rejects uploads claiming to be for another user', async () => {
+    const response = await POST(uploadRequest(URL, {
+      headers: { Authorization: 'Bearer token-alice' },
+      fields: { userId: 'bob-id' }
+    }))
+
+    expect(response.status).toBe(403)
+    expect(client.bucket.upload).not.toHaveBeenCalled()
+  })
+
+  it('rejects a cookie session for another user', async () => {
+    const response = await POST(uploadRequest(URL, {
+      headers: { Cookie: sessionCookie('token-bob') },
+      fields: { userId: 'alice-id' }
+    }))
+
+    expect(response.status).toBe(403)
+  })
+
+  it('accepts a bearer token and files the upload under its user', async () => {
+    const response = await POST(uploadRequest(URL, {
+      headers: { Authorization: 'Bearer token-alice' },
+      fields: { userId: 'alice-id' }
+    }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).url).toMatch(/^https:\/\/storage\.test\/alice-id_\d+\.jpg$/)
+  })
+
+  it('accepts a session cookie', async () => {
+    const response = await POST(uploadRequest(URL, { headers: { Cookie: sessionCookie('token-bob') } }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).url).toContain('/bob-id_')
+  })
+})
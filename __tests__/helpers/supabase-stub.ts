@@ -0,0 +1,55 @@
+import { vi } from 'vitest'
+import { type AuthVerifier } from '@/lib/request-auth'
+
+// Access tokens the stubbed auth client accepts, and who they belong to
+export const TOKENS: Record<string, string> = {
+  'token-alice': 'alice-id',
+  'token-bob': 'bob-id'
+}
+
+// Stand-in for the service-role client the upload routes build: auth checks
+// tokens against TOKENS and storage accepts every upload
+export function createStubClient() {
+  const auth: AuthVerifier = {
+    getUser: vi.fn(async (token?: string) => {
+      const id = token ? TOKENS[token] : undefined
+      return id
+        ? { data: { user: { id } }, error: null }
+        : { data: { user: null }, error: new Error('Invalid token') }
+    }) as unknown as AuthVerifier['getUser']
+  }
+
+  const bucket = {
+    upload: vi.fn(async () => ({ data: {}, error: null })),
+    getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://storage.test/${path}` } }))
+  }
+
+  return {
+    auth,
+    storage: { from: vi.fn(() => bucket) },
+    bucket
+  }
+}
+
+export type StubClient = ReturnType<typeof createStubClient>
+
+// Multipart upload request carrying a small file and any extra form fields
+export function uploadRequest(
+  url: string,
+  options: { headers?: Record<string, string>, fields?: Record<string, string> } = {}
+): Request {
+  const formData = new FormData()
+  formData.append('file', new File([new Uint8Array([0xff, 0xd8, 0xff, 0x00])], 'photo.jpg', { type: 'image/jpeg' }))
+
+  for (const [key, value] of Object.entries(options.fields || {})) {
+    formData.append(key, value)
+  }
+
+  return new Request(url, { method: 'POST', headers: options.headers, body: formData })
+}
+
+// `sb-<project>-auth-token` cookie as Supabase's cookie-based clients write it
+export function sessionCookie(token: string): string {
+  const value = 'base64-' + Buffer.from(JSON.stringify({ access_token: token })).toString('base64')
+  return `theme=dark; sb-testproject-auth-token=${encodeURIComponent(value)}`
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EMPTY_FOR_YOU_CONTEXT,
+  RECENCY_HALF_LIFE_HOURS,
+  forYouSignals,
+  rankForYou,
+  type ForYouContext
+} from '@/lib/for-you-ranking'
+
+const NOW = new Date('2026-10-19T12:00:00Z').getTime()
+const HOUR = 3_600_000
+
+function photo(id: string, overrides: Partial<Parameters<typeof forYouSignals>[0]> = {}) {
+  return {
+    id,
+    user_id: 'uploader',
+    created_at: new Date(NOW).toISOString(),
+    rating: 0,
+    weighted_rating: 0,
+    likes_count: 0,
+    comments_count: 0,
+    ...overrides
+  }
+}
+
+const VIEWER: ForYouContext = {
+  followedIds: new Set(['friend']),
+  secondDegreeIds: new Set(['friend-of-friend']),
+  uploaderAffinity: new Map([['favourite', 10], ['disliked', 3]])
+}
+
+describe('forYouSignals', () => {
+  it('halves recency every half-life', () => {
+    const fresh = forYouSignals(photo('a'), EMPTY_FOR_YOU_CONTEXT, NOW)
+    const older = forYouSignals(
+      photo('a', { created_at: new Date(NOW - RECENCY_HALF_LIFE_HOURS * HOUR).toISOString() }),
+      EMPTY_FOR_YOU_CONTEXT,
+      NOW
+    )
+
+    expect(fresh.recency).toBe(1)
+    expect(older.recency).toBeCloseTo(0.5)
+  })
+
+  it('scores quality from the weighted rating, falling back to the plain one', () => {
+    expect(forYouSignals(photo('a', { weighted_rating: 8, rating: 2 }), EMPTY_FOR_YOU_CONTEXT, NOW).quality).toBeCloseTo(0.8)
+    expect(forYouSignals(photo('a', { weighted_rating: undefined, rating: 6 }), EMPTY_FOR_YOU_CONTEXT, NOW).quality).toBeCloseTo(0.6)
+  })
+
+  it('counts comments double and saturates engagement', () => {
+    const likes = forYouSignals(photo('a', { likes_count: 2 }), EMPTY_FOR_YOU_CONTEXT, NOW)
+    const comment = forYouSignals(photo('a', { comments_count: 1 }), EMPTY_FOR_YOU_CONTEXT, NOW)
+    const viral = forYouSignals(photo('a', { likes_count: 5000 }), EMPTY_FOR_YOU_CONTEXT, NOW)
+
+    expect(forYouSignals(photo('a'), EMPTY_FOR_YOU_CONTEXT, NOW).engagement).toBe(0)
+    expect(comment.engagement).toBeCloseTo(likes.engagement)
+    expect(viral.engagement).toBe(1)
+  })
+
+  it('boosts followed and second-degree uploaders', () => {
+    expect(forYouSignals(photo('a', { user_id: 'friend' }), VIEWER, NOW).proximity).toBe(1)
+    expect(forYouSignals(photo('a', { user_id: 'friend-of-friend' }), VIEWER, NOW).proximity).toBe(0.5)
+    expect(forYouSignals(photo('a', { user_id: 'stranger' }), VIEWER, NOW).proximity).toBe(0)
+  })
+
+  it('only rewards affinity for uploaders rated above the midpoint', () => {
+    expect(forYouSignals(photo('a', { user_id: 'favourite' }), VIEWER, NOW).affinity).toBe(1)
+    expect(forYouSignals(photo('a', { user_id: 'disliked' }), VIEWER, NOW).affinity).toBe(0)
+    expect(forYouSignals(photo('a', { user_id: 'stranger' }), VIEWER, NOW).affinity).toBe(0)
+  })
+})
+
+describe('rankForYou', () => {
+  it('puts followed, fresh, well-rated photos first', () => {
+    const ranked = rankForYou([
+      photo('stale', { created_at: new Date(NOW - 10 * RECENCY_HALF_LIFE_HOURS * HOUR).toISOString() }),
+      photo('friend', { user_id: 'friend' }),
+      photo('plain'),
+      photo('top-rated', { weighted_rating: 9 })
+    ], VIEWER, NOW)
+
+    expect(ranked.map(({ photo }) => photo.id)).toEqual(['top-rated', 'friend', 'plain', 'stale'])
+  })
+
+  it('breaks score ties by id so the order is total', () => {
+    const ranked = rankForYou([photo('a'), photo('c'), photo('b')], EMPTY_FOR_YOU_CONTEXT, NOW)
+
+    expect(ranked.map(({ photo }) => photo.id)).toEqual(['c', 'b', 'a'])
+  })
+
+  it('ranks the same photos identically for the same moment', () => {
+    const photos = [photo('a', { likes_count: 3 }), photo('b', { weighted_rating: 6 }), photo('c', { user_id: 'friend' })]
+
+    expect(rankForYou(photos, VIEWER, NOW)).toEqual(rankForYou([...photos].reverse(), VIEWER, NOW))
+  })
+})
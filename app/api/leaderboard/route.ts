@@ -0,0 +1,43 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { computeLeaderboard, parseLeaderboardPeriod } from '@/lib/leaderboard';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const period = parseLeaderboardPeriod(searchParams.get('period'));
+
+    const leaderboard = await computeLeaderboard(supabase, period);
+
+    return NextResponse.json(leaderboard);
+  } catch (error) {
+    console.error('Error computing leaderboard:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute leaderboard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/request-auth';
+import { issueMatchupPair, judgeMatchup, type MatchupResult } from '@/lib/matchup-service';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+// Response for each way a vote can be turned down
+const REJECTIONS: Record<Exclude<MatchupResult, 'recorded'>, { error: string, status: number }> = {
+  not_found: { error: 'This matchup was not issued to you', status: 404 },
+  already_judged: { error: 'You have already judged this matchup', status: 409 },
+  rate_limited: { error: 'You are judging too fast. Take a breather and try again.', status: 429 },
+};
+
+// Issue the next pair for the signed-in user to judge
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const pair = await issueMatchupPair(supabase, user.id);
+
+    return NextResponse.json({ pair });
+  } catch (error) {
+    console.error('Error issuing matchup:', error);
+    return NextResponse.json(
+      { error: 'Failed to load matchup' },
+      { status: 500 }
+    );
+  }
+}
+
+// Record the signed-in user's pick for a pair issued to them
+export async function POST(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (typeof body?.pairId !== 'string' || typeof body?.winnerId !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing pairId or winnerId' },
+        { status: 400 }
+      );
+    }
+
+    const result = await judgeMatchup(supabase, user.id, body.pairId, body.winnerId);
+
+    if (result !== 'recorded') {
+      const { error, status } = REJECTIONS[result];
+      return NextResponse.json({ error }, { status });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error recording matchup:', error);
+    return NextResponse.json(
+      { error: 'Failed to record matchup' },
+      { status: 500 }
+    );
+  }
+}
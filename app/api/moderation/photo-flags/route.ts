@@ -0,0 +1,99 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { getRequestUser, isModerator } from '@/lib/request-auth';
+import { getPendingPhotoFlags, reviewPhotoFlag } from '@/lib/duplicate-detection';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+const DECISIONS = ['cleared', 'confirmed'] as const;
+
+// The signed-in moderator behind a request, or the response to send instead
+async function requireModerator(request: Request) {
+  const user = await getRequestUser(supabase.auth, request);
+
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }) };
+  }
+
+  if (!await isModerator(supabase, user.id)) {
+    return { response: NextResponse.json({ error: 'Moderators only' }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+// Near-duplicate uploads awaiting review, oldest first
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const { response } = await requireModerator(request);
+    if (response) return response;
+
+    const flags = await getPendingPhotoFlags(supabase);
+
+    return NextResponse.json({ flags });
+  } catch (error) {
+    console.error('Error fetching photo flags:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch photo flags' },
+      { status: 500 }
+    );
+  }
+}
+
+// Clear or confirm a flag as the signed-in moderator
+export async function POST(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const { user, response } = await requireModerator(request);
+    if (response) return response;
+
+    const body = await request.json().catch(() => null);
+
+    if (typeof body?.flagId !== 'string' || !DECISIONS.includes(body.decision)) {
+      return NextResponse.json(
+        { error: 'Expected a flagId and a decision of cleared or confirmed' },
+        { status: 400 }
+      );
+    }
+
+    const { success, error } = await reviewPhotoFlag(supabase, body.flagId, user.id, body.decision);
+
+    if (!success) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error reviewing photo flag:', error);
+    return NextResponse.json(
+      { error: 'Failed to review photo flag' },
+      { status: 500 }
+    );
+  }
+}
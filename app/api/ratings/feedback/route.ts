@@ -0,0 +1,79 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/request-auth';
+import { summarizeFeedback } from '@/lib/rating-feedback';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+// Max photos summarized per request, so the lookup stays one query
+const MAX_PHOTO_IDS = 100;
+
+// Aggregated rater feedback on the signed-in user's own photos
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const photoIds = Array.from(new Set((searchParams.get('photoIds') || '').split(',').filter(Boolean)));
+
+    if (photoIds.length === 0 || photoIds.length > MAX_PHOTO_IDS) {
+      return NextResponse.json(
+        { error: `Expected between 1 and ${MAX_PHOTO_IDS} photoIds` },
+        { status: 400 }
+      );
+    }
+
+    const { data: photos, error: photosError } = await supabase
+      .from('photos')
+      .select('id, user_id')
+      .in('id', photoIds);
+
+    if (photosError) throw photosError;
+
+    // Feedback is for the owner's eyes only
+    if (!photos || photos.length !== photoIds.length || photos.some(photo => photo.user_id !== user.id)) {
+      return NextResponse.json(
+        { error: 'Cannot view feedback on another user\'s photos' },
+        { status: 403 }
+      );
+    }
+
+    const summary = await summarizeFeedback(supabase, photoIds);
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error summarizing feedback:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch feedback' },
+      { status: 500 }
+    );
+  }
+}
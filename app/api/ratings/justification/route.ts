@@ -0,0 +1,133 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/request-auth';
+import { parseJustification, readJustification, writeJustification } from '@/lib/rating-feedback';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+// The signed-in user's rating of a photo and the justification attached to it
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const photoId = searchParams.get('photoId');
+    const claimedUserId = searchParams.get('userId');
+
+    if (!photoId) {
+      return NextResponse.json(
+        { error: 'Missing photoId' },
+        { status: 400 }
+      );
+    }
+
+    if (claimedUserId && claimedUserId !== user.id) {
+      return NextResponse.json(
+        { error: 'Cannot view another user\'s feedback' },
+        { status: 403 }
+      );
+    }
+
+    const justification = await readJustification(supabase, user.id, photoId);
+
+    return NextResponse.json({ justification });
+  } catch (error) {
+    console.error('Error fetching rating justification:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch feedback' },
+      { status: 500 }
+    );
+  }
+}
+
+// Attach or replace the justification on the signed-in user's rating
+export async function POST(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (typeof body?.photoId !== 'string' || !body.photoId) {
+      return NextResponse.json(
+        { error: 'Missing photoId' },
+        { status: 400 }
+      );
+    }
+
+    if (body.userId && body.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Cannot edit another user\'s feedback' },
+        { status: 403 }
+      );
+    }
+
+    const justification = parseJustification(body);
+
+    if ('error' in justification) {
+      return NextResponse.json(
+        { error: justification.error },
+        { status: 400 }
+      );
+    }
+
+    const saved = await writeJustification(supabase, user.id, body.photoId, justification);
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Rate the photo before adding feedback' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving rating justification:', error);
+    return NextResponse.json(
+      { error: 'Failed to save feedback' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/request-auth';
+import { getPhotoAggregate } from '@/lib/rating-aggregation';
+import { screenRating } from '@/lib/rating-fraud';
+import {
+  DEFAULT_RATING_DIMENSIONS,
+  isValidScore,
+  overallFromScores,
+  type DimensionScores
+} from '@/lib/rating-dimensions';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+type ParsedRating = { rating: number, scores: DimensionScores | null } | { error: string };
+
+// A single 1-10 score, or a score per dimension the photo is rated on
+function parseRating(value: unknown, dimensions: string[]): ParsedRating {
+  if (typeof value === 'number') {
+    return isValidScore(value)
+      ? { rating: value, scores: null }
+      : { error: 'Rating must be a whole number between 1 and 10' };
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Missing rating' };
+  }
+
+  const invalid = Object.entries(value).find(
+    ([key, score]) => !dimensions.includes(key) || !isValidScore(score)
+  );
+
+  if (invalid) {
+    return { error: `Invalid score for ${invalid[0]}` };
+  }
+
+  const scores = value as DimensionScores;
+  const rating = overallFromScores(scores);
+
+  if (!isValidScore(rating)) {
+    return { error: 'Rating must be a whole number between 1 and 10' };
+  }
+
+  return { rating, scores };
+}
+
+// Save the signed-in user's rating of a photo. Runs here rather than in the
+// browser so fraud screening can't be skipped and raters can't unflag themselves.
+export async function POST(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const photoId = body?.photoId;
+
+    if (typeof photoId !== 'string' || !photoId) {
+      return NextResponse.json(
+        { error: 'Missing photoId' },
+        { status: 400 }
+      );
+    }
+
+    if (body.userId && body.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Cannot rate for another user' },
+        { status: 403 }
+      );
+    }
+
+    const { data: photo, error: photoError } = await supabase
+      .from('photos')
+      .select('rating_dimensions')
+      .eq('id', photoId)
+      .maybeSingle();
+
+    if (photoError) throw photoError;
+
+    if (!photo) {
+      return NextResponse.json(
+        { error: 'Photo not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the dimensions this photo is rated on are accepted
+    const parsed = parseRating(
+      body.value,
+      photo.rating_dimensions?.length ? photo.rating_dimensions : DEFAULT_RATING_DIMENSIONS
+    );
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { rating, scores } = parsed;
+
+    const { data: existingRating, error: checkError } = await supabase
+      .from('ratings')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('photo_id', photoId)
+      .maybeSingle();
+
+    if (checkError) throw checkError;
+
+    const ratingId: string = existingRating ? existingRating.id : crypto.randomUUID();
+
+    // Triggers on ratings log the change and recalculate the photo's aggregate
+    const { error: saveError } = existingRating
+      ? await supabase
+        .from('ratings')
+        .update({
+          rating,
+          scores,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', ratingId)
+      : await supabase
+        .from('ratings')
+        .insert({
+          id: ratingId,
+          user_id: user.id,
+          photo_id: photoId,
+          rating,
+          scores,
+          created_at: new Date().toISOString(),
+        });
+
+    if (saveError) throw saveError;
+
+    // Flag brigading patterns; flagged ratings drop out of the aggregate
+    await screenRating(supabase, { id: ratingId, user_id: user.id, photo_id: photoId });
+
+    // The ratings trigger has already brought the photo's aggregate up to date
+    const aggregate = await getPhotoAggregate(supabase, photoId);
+
+    return NextResponse.json({ success: true, aggregate });
+  } catch (error) {
+    console.error('Error saving rating:', error);
+    return NextResponse.json(
+      { error: 'Failed to save rating' },
+      { status: 500 }
+    );
+  }
+}
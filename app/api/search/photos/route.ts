@@ -0,0 +1,50 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { parsePhotoSearchParams, runPhotoSearch } from '@/lib/photo-search';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const filters = parsePhotoSearchParams(searchParams);
+
+    if (!filters.query) {
+      return NextResponse.json(
+        { error: 'Missing search query' },
+        { status: 400 }
+      );
+    }
+
+    const photos = await runPhotoSearch(supabase, filters);
+
+    return NextResponse.json({ photos });
+  } catch (error) {
+    console.error('Error searching photos:', error);
+    return NextResponse.json(
+      { error: 'Failed to search photos' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { runProfileSearch } from '@/lib/profile-search';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Missing search query' },
+        { status: 400 }
+      );
+    }
+
+    const page = await runProfileSearch(supabase, query, {
+      cursor: searchParams.get('cursor'),
+      limit: Number(searchParams.get('limit')) || undefined
+    });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error searching profiles:', error);
+    return NextResponse.json(
+      { error: 'Failed to search profiles' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { recomputeTrendingScores } from '@/lib/trending';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+// Called by the scheduled job in vercel.json, which sends CRON_SECRET as a bearer token
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await recomputeTrendingScores(supabase);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error recomputing trending scores:', error);
+    return NextResponse.json(
+      { error: 'Failed to recompute trending scores' },
+      { status: 500 }
+    );
+  }
+}
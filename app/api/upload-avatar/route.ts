@@ -1,5 +1,9 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/request-auth';
+import { encodeVariant, processImage } from '@/lib/image-processing';
+import { AVATAR_SIZE, AVATAR_VARIANT_SIZES } from '@/lib/image-variants';
+import { MAX_UPLOAD_BYTES, imageValidationError, validationErrorBody } from '@/lib/image-validation';
 
 // Initialize Supabase client with proper error handling
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -26,28 +30,80 @@ export async function POST(request: Request) {
       );
     }
 
+    // The uploader comes from the session, never from the form body
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
-    const userId = formData.get('userId') as string;
+    const claimedUserId = formData.get('userId') as string | null;
+
+    if (claimedUserId && claimedUserId !== user.id) {
+      return NextResponse.json(
+        { error: 'Cannot upload for another user' },
+        { status: 403 }
+      );
+    }
     
-    if (!file || !userId) {
+    if (!file || typeof file === 'string') {
       return NextResponse.json(
-        { error: 'Missing file or userId' },
+        validationErrorBody(imageValidationError('missing_file')),
         { status: 400 }
       );
     }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        validationErrorBody(imageValidationError('too_large')),
+        { status: 413 }
+      );
+    }
+
+    const userId = user.id;
     
-    const filename = `${userId}_${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '')}`;
-    
-    // Convert File to ArrayBuffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = new Uint8Array(arrayBuffer);
+    // Sniff, validate and re-encode; the original bytes are never stored
+    const result = await processImage(new Uint8Array(await file.arrayBuffer()), { maxDimension: AVATAR_SIZE });
+
+    if (!result.success) {
+      return NextResponse.json(
+        validationErrorBody(result.error),
+        { status: 422 }
+      );
+    }
+
+    const { image } = result;
+
+    // Stored as <user>/<timestamp>/<size>, so avatarSrcSet can find the
+    // smaller copies from the main URL
+    const folder = `${userId}/${Date.now()}`;
+    const filename = `${folder}/${AVATAR_SIZE}.${image.extension}`;
     
-    // Upload to Supabase Storage
+    // Upload to Supabase Storage, smaller copies first so they exist by the
+    // time anything links to the main image
+    for (const size of AVATAR_VARIANT_SIZES) {
+      const variant = await encodeVariant(image.buffer, size, 'webp');
+      const { error } = await supabase.storage
+        .from('avatars')
+        .upload(`${folder}/${size}.${variant.extension}`, variant.buffer, {
+          contentType: variant.contentType,
+          upsert: true,
+        });
+
+      if (error) {
+        throw error;
+      }
+    }
+
     const { error } = await supabase.storage
       .from('avatars')
-      .upload(filename, buffer, {
-        contentType: file.type,
+      .upload(filename, image.buffer, {
+        contentType: image.contentType,
         upsert: true,
       });
     
@@ -1,5 +1,10 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/request-auth';
+import { computeImageHash, createPlaceholder, generatePhotoVariants, processImage, type ProcessedImage } from '@/lib/image-processing';
+import { findSimilarPhotos, flagNearDuplicate, recordImageHash, type SimilarPhoto } from '@/lib/duplicate-detection';
+import { type ImageVariant } from '@/lib/image-variants';
+import { MAX_UPLOAD_BYTES, imageValidationError, validationErrorBody } from '@/lib/image-validation';
 
 // Initialize Supabase client with proper error handling
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -16,6 +21,76 @@ const supabase = createClient(
   supabaseServiceKey || ''
 );
 
+// Resize, encode and store every variant next to the original. Variants only
+// save bandwidth, so a failure here is logged and the upload still succeeds.
+async function uploadVariants(image: ProcessedImage, baseName: string): Promise<ImageVariant[]> {
+  try {
+    const encoded = await generatePhotoVariants(image);
+
+    return await Promise.all(encoded.map(async (variant) => {
+      const filename = `${baseName}_${variant.width}.${variant.extension}`;
+
+      const { error } = await supabase.storage
+        .from('images')
+        .upload(filename, variant.buffer, {
+          contentType: variant.contentType,
+          upsert: false,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      const { data } = supabase.storage
+        .from('images')
+        .getPublicUrl(filename);
+
+      return {
+        url: data.publicUrl,
+        width: variant.width,
+        height: variant.height,
+        format: variant.format,
+      };
+    }));
+  } catch (error) {
+    console.error('Error generating image variants:', error);
+    return [];
+  }
+}
+
+// Hash the image and look up earlier uploads that look the same. Like rating
+// screening, a failure here is logged and never blocks the upload.
+async function findDuplicates(image: ProcessedImage): Promise<{ hash: string, similar: SimilarPhoto[] } | null> {
+  try {
+    const hash = await computeImageHash(image.buffer);
+    const similar = await findSimilarPhotos(supabase, hash);
+
+    return { hash, similar };
+  } catch (error) {
+    console.error('Error checking for duplicate photos:', error);
+    return null;
+  }
+}
+
+// Store the new upload's hash and, if it matches another user's photo, open a
+// flag for moderators pointing at the original
+async function recordUpload(
+  imageUrl: string,
+  userId: string,
+  duplicates: { hash: string, similar: SimilarPhoto[] }
+): Promise<void> {
+  try {
+    await recordImageHash(supabase, { imageUrl, userId, hash: duplicates.hash });
+
+    const original = duplicates.similar.find(match => match.userId !== userId);
+    if (original) {
+      await flagNearDuplicate(supabase, { imageUrl, uploaderId: userId }, original);
+    }
+  } catch (error) {
+    console.error('Error recording photo hash:', error);
+  }
+}
+
 export async function POST(request: Request) {
   try {
     // Verify environment variables are available
@@ -26,28 +101,74 @@ export async function POST(request: Request) {
       );
     }
 
+    // The uploader comes from the session, never from the form body
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
-    const userId = formData.get('userId') as string;
+    const claimedUserId = formData.get('userId') as string | null;
+
+    if (claimedUserId && claimedUserId !== user.id) {
+      return NextResponse.json(
+        { error: 'Cannot upload for another user' },
+        { status: 403 }
+      );
+    }
     
-    if (!file || !userId) {
+    if (!file || typeof file === 'string') {
       return NextResponse.json(
-        { error: 'Missing file or userId' },
+        validationErrorBody(imageValidationError('missing_file')),
         { status: 400 }
       );
     }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        validationErrorBody(imageValidationError('too_large')),
+        { status: 413 }
+      );
+    }
+
+    const userId = user.id;
     
-    const filename = `${userId}_${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '')}`;
-    
-    // Convert File to ArrayBuffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = new Uint8Array(arrayBuffer);
+    // Sniff, validate and re-encode; the original bytes are never stored
+    const result = await processImage(new Uint8Array(await file.arrayBuffer()));
+
+    if (!result.success) {
+      return NextResponse.json(
+        validationErrorBody(result.error),
+        { status: 422 }
+      );
+    }
+
+    const { image } = result;
+
+    // Re-uploading your own photo is always a mistake or rating farming
+    const duplicates = await findDuplicates(image);
+    const ownCopy = duplicates?.similar.find(match => match.userId === userId && match.distance === 0);
+
+    if (ownCopy) {
+      return NextResponse.json(
+        { error: 'You have already uploaded this photo', code: 'duplicate_upload', photoId: ownCopy.photoId },
+        { status: 409 }
+      );
+    }
+
+    const baseName = `${userId}_${Date.now()}`;
+    const filename = `${baseName}.${image.extension}`;
     
     // Upload to Supabase Storage
     const { error } = await supabase.storage
       .from('images')
-      .upload(filename, buffer, {
-        contentType: file.type,
+      .upload(filename, image.buffer, {
+        contentType: image.contentType,
         upsert: false,
       });
     
@@ -59,10 +180,24 @@ export async function POST(request: Request) {
     const { data: urlData } = supabase.storage
       .from('images')
       .getPublicUrl(filename);
+
+    const [variants, placeholder] = await Promise.all([
+      uploadVariants(image, baseName),
+      duplicates ? recordUpload(urlData.publicUrl, userId, duplicates) : null,
+      // Like the variants, the placeholder is a nicety and never fails the upload
+      createPlaceholder(image.buffer).catch((error) => {
+        console.error('Error creating image placeholder:', error);
+        return null;
+      }),
+    ]);
     
     return NextResponse.json({
       success: true,
       url: urlData.publicUrl,
+      variants,
+      width: image.width,
+      height: image.height,
+      ...(placeholder || {}),
     });
   } catch (error) {
     console.error('Error uploading file:', error);
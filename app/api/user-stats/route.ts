@@ -0,0 +1,61 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/request-auth';
+import { computeUserStats } from '@/lib/user-stats';
+
+// Initialize Supabase client with proper error handling
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Check if environment variables are defined
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase environment variables');
+}
+
+// Initialize Supabase client
+const supabase = createClient(
+  supabaseUrl || '',
+  supabaseServiceKey || ''
+);
+
+export async function GET(request: Request) {
+  try {
+    // Verify environment variables are available
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const user = await getRequestUser(supabase.auth, request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId') || user.id;
+
+    // Stats include the feedback raters left, which is for the owner's eyes only
+    if (userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Cannot view another user\'s stats' },
+        { status: 403 }
+      );
+    }
+
+    const stats = await computeUserStats(supabase, userId);
+
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error('Error computing user stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute user stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,21 +3,35 @@
 import { useState, useEffect, Suspense } from "react"
 import { useSearchParams, useRouter } from "next/navigation"
 import { searchProfiles, getPopularProfiles, type Profile } from "@/lib/profile-service"
+import { getSuggestedProfiles, type SuggestedProfile } from "@/lib/profile-suggestions"
+import { searchPhotos, type Photo } from "@/lib/photo-service"
+import { type PhotoSearchSort } from "@/lib/photo-search"
+import { PhotoCard } from "@/components/photo-card"
+import { useViewerState } from "@/hooks/use-viewer-state"
+import { useAuth } from "@/lib/auth-context"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { SearchBar } from "@/components/search-bar"
 import { ProfileCard } from "@/components/profile-card"
 import { Loader2, Users } from "lucide-react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
 
 // Create a separate component that uses useSearchParams
 function DiscoverContent() {
   const searchParams = useSearchParams()
   const router = useRouter()
   const initialQuery = searchParams.get('q') || ""
+  const { user } = useAuth()
   
   const [searchResults, setSearchResults] = useState<Profile[]>([])
+  const [searchCursor, setSearchCursor] = useState<string | null>(null)
+  const [photoResults, setPhotoResults] = useState<Photo[]>([])
+  const [photoSort, setPhotoSort] = useState<PhotoSearchSort>('relevance')
+  const [minRating, setMinRating] = useState("any")
+  const viewerStates = useViewerState(photoResults)
   const [popularProfiles, setPopularProfiles] = useState<Profile[]>([])
-  const [suggestedProfiles, setSuggestedProfiles] = useState<Profile[]>([])
+  const [suggestedProfiles, setSuggestedProfiles] = useState<SuggestedProfile[]>([])
   const [loading, setLoading] = useState(false)
   
   // Run search if query is in URL
@@ -25,14 +39,32 @@ function DiscoverContent() {
     async function performSearch() {
       if (initialQuery) {
         setLoading(true)
-        const results = await searchProfiles(initialQuery)
-        setSearchResults(results)
+        const [results, photos] = await Promise.all([
+          searchProfiles(initialQuery),
+          searchPhotos({
+            query: initialQuery,
+            sort: photoSort,
+            minRating: minRating === "any" ? undefined : Number(minRating)
+          })
+        ])
+        setSearchResults(results.items)
+        setSearchCursor(results.nextCursor)
+        setPhotoResults(photos)
         setLoading(false)
       }
     }
     
     performSearch()
-  }, [initialQuery])
+  }, [initialQuery, photoSort, minRating])
+  
+  // Append the next page of matching users
+  const loadMoreUsers = async () => {
+    if (!searchCursor) return
+    
+    const results = await searchProfiles(initialQuery, { cursor: searchCursor })
+    setSearchResults(prev => [...prev, ...results.items])
+    setSearchCursor(results.nextCursor)
+  }
   
   // Load popular and suggested profiles
   useEffect(() => {
@@ -41,18 +73,20 @@ function DiscoverContent() {
       const popular = await getPopularProfiles(10)
       setPopularProfiles(popular)
       
-      // Load a different set for suggestions (fewer results)
-      const suggested = await getPopularProfiles(5)
+      // Personal suggestions for signed-in users, popular profiles otherwise
+      const suggested = user
+        ? await getSuggestedProfiles(user.id, 5)
+        : await getPopularProfiles(5)
       setSuggestedProfiles(suggested)
     }
     
     loadProfiles()
-  }, [])
+  }, [user])
   
   // Update profiles when follow/unfollow
   const handleFollowChange = (profileId: string, following: boolean) => {
     // Update all profile lists with the new follow status
-    const updateProfileList = (profiles: Profile[]) => 
+    const updateProfileList = <T extends Profile>(profiles: T[]) => 
       profiles.map(profile => 
         profile.id === profileId 
           ? { 
@@ -71,10 +105,10 @@ function DiscoverContent() {
   
   return (
     <div className="container max-w-4xl py-8">
-      <h1 className="text-2xl font-bold mb-6">Discover Users</h1>
+      <h1 className="text-2xl font-bold mb-6">Discover</h1>
       
       <SearchBar 
-        placeholder="Search by username or name..." 
+        placeholder="Search users, photos or tags..." 
         className="max-w-xl mx-auto mb-8"
         autoFocus
       />
@@ -90,31 +124,103 @@ function DiscoverContent() {
         <TabsContent value="search">
           {!initialQuery ? (
             <div className="text-center py-12 bg-gray-50 dark:bg-gray-800 rounded-lg">
-              <p className="text-gray-500">Start searching to find users</p>
+              <p className="text-gray-500">Start searching to find users and photos</p>
             </div>
           ) : loading ? (
             <div className="flex justify-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
-          ) : searchResults.length === 0 ? (
-            <div className="text-center py-12 bg-gray-50 dark:bg-gray-800 rounded-lg">
-              <p className="text-gray-500">No users found for "{initialQuery}"</p>
-            </div>
           ) : (
-            <div className="grid gap-4">
-              {searchResults.map(profile => (
-                <ProfileCard
-                  key={profile.id}
-                  id={profile.id}
-                  username={profile.username}
-                  fullName={profile.full_name}
-                  avatarUrl={profile.avatar_url}
-                  bio={profile.bio}
-                  followersCount={profile.followers_count}
-                  followingCount={profile.following_count}
-                  onFollowChange={(following) => handleFollowChange(profile.id, following)}
-                />
-              ))}
+            <div className="space-y-10">
+              <section>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                  <h2 className="text-lg font-semibold">Photos</h2>
+                  <div className="flex gap-2">
+                    <Select value={photoSort} onValueChange={(value) => setPhotoSort(value as PhotoSearchSort)}>
+                      <SelectTrigger className="w-[140px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="relevance">Best match</SelectItem>
+                        <SelectItem value="latest">Latest</SelectItem>
+                        <SelectItem value="top_rated">Top Rated</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={minRating} onValueChange={setMinRating}>
+                      <SelectTrigger className="w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any rating</SelectItem>
+                        <SelectItem value="5">5+</SelectItem>
+                        <SelectItem value="7">7+</SelectItem>
+                        <SelectItem value="9">9+</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                
+                {photoResults.length === 0 ? (
+                  <div className="text-center py-12 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                    <p className="text-gray-500">No photos found for "{initialQuery}"</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {photoResults.map(photo => (
+                      <PhotoCard
+                        key={photo.id}
+                        id={photo.id}
+                        imageUrl={photo.image_url}
+                        imageVariants={photo.image_variants}
+                        blurDataUrl={photo.blur_data_url}
+                        dominantColor={photo.dominant_color}
+                        title={photo.title}
+                        description={photo.description}
+                        rating={photo.rating}
+                        votesCount={photo.votes_count}
+                        likesCount={photo.likes_count}
+                        commentsCount={photo.comments_count}
+                        username={photo.user?.username}
+                        userAvatar={photo.user?.avatar_url}
+                        userId={photo.user_id}
+                        createdAt={photo.created_at}
+                        tags={photo.tags}
+                        viewerState={user ? viewerStates[photo.id] ?? null : undefined}
+                      />
+                    ))}
+                  </div>
+                )}
+              </section>
+              
+              <section>
+                <h2 className="text-lg font-semibold mb-4">Users</h2>
+                {searchResults.length === 0 ? (
+                  <div className="text-center py-12 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                    <p className="text-gray-500">No users found for "{initialQuery}"</p>
+                  </div>
+                ) : (
+                  <div className="grid gap-4">
+                    {searchResults.map(profile => (
+                      <ProfileCard
+                        key={profile.id}
+                        id={profile.id}
+                        username={profile.username}
+                        fullName={profile.full_name}
+                        avatarUrl={profile.avatar_url}
+                        bio={profile.bio}
+                        followersCount={profile.followers_count}
+                        followingCount={profile.following_count}
+                        onFollowChange={(following) => handleFollowChange(profile.id, following)}
+                      />
+                    ))}
+                    {searchCursor && (
+                      <Button variant="outline" onClick={loadMoreUsers}>
+                        Load more users
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </section>
             </div>
           )}
         </TabsContent>
@@ -176,6 +282,7 @@ function DiscoverContent() {
                         bio={profile.bio}
                         followersCount={profile.followers_count}
                         followingCount={profile.following_count}
+                        reason={profile.reason}
                         onFollowChange={(following) => handleFollowChange(profile.id, following)}
                       />
                     ))}
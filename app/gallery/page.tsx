@@ -1,35 +1,63 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent } from "@/components/ui/card"
-import { Star } from "lucide-react"
-import { getAllPhotos, type Photo } from "@/lib/photo-service"
+import { Star, Swords } from "lucide-react"
+import { getAllPhotos, getFollowingFeed, type Photo, type PhotoOrder } from "@/lib/photo-service"
 import { PhotoCard } from "@/components/photo-card"
+import { useViewerState } from "@/hooks/use-viewer-state"
+import { useAuth } from "@/lib/auth-context"
+import Link from "next/link"
+
+type GalleryView = PhotoOrder | 'following'
+
+const PAGE_SIZE = 12
+
+// One page of the selected view; the following feed needs a signed-in user
+async function fetchGalleryPage(view: GalleryView, userId: string | undefined, cursor?: string) {
+  if (view === 'following' && userId) {
+    return getFollowingFeed(userId, { cursor, limit: PAGE_SIZE })
+  }
+  
+  const page = await getAllPhotos({
+    cursor,
+    limit: PAGE_SIZE,
+    orderBy: view === 'following' ? 'latest' : view,
+    viewerId: userId
+  })
+  return { ...page, suggested: false }
+}
 
 export default function GalleryPage() {
+  const { user } = useAuth()
+  const userId = user?.id
   const [photos, setPhotos] = useState<Photo[]>([])
   const [loading, setLoading] = useState(true)
-  const [sortBy, setSortBy] = useState<'latest' | 'top_rated' | 'popular'>('latest')
-  const [page, setPage] = useState(1)
-  const [hasMore, setHasMore] = useState(true)
+  const [sortBy, setSortBy] = useState<GalleryView>('latest')
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  // Following feed fell back to suggestions
+  const [suggested, setSuggested] = useState(false)
+  const viewerStates = useViewerState(photos)
+  // Sort the latest request was made for, so stale pages are dropped
+  const activeSort = useRef(sortBy)
+  const sentinelRef = useRef<HTMLDivElement>(null)
   
   // Load photos on mount and when sort changes
   useEffect(() => {
     async function loadPhotos() {
+      activeSort.current = sortBy
       setLoading(true)
       
       try {
-        const fetchedPhotos = await getAllPhotos({
-          page: 1,
-          limit: 12,
-          orderBy: sortBy
-        })
+        const page = await fetchGalleryPage(sortBy, userId)
+        
+        if (activeSort.current !== sortBy) return
         
-        setPhotos(fetchedPhotos || [])
-        setHasMore(fetchedPhotos.length === 12)
-        setPage(1)
+        setPhotos(page.items)
+        setNextCursor(page.nextCursor)
+        setSuggested(page.suggested)
       } catch (error) {
         console.error('Error loading photos:', error)
       } finally {
@@ -38,35 +66,43 @@ export default function GalleryPage() {
     }
     
     loadPhotos()
-  }, [sortBy])
+  }, [sortBy, userId])
   
-  // Load more photos when page changes
-  const loadMorePhotos = async () => {
-    if (!hasMore || loading) return
+  // Load the page after the last photo shown
+  const loadMorePhotos = useCallback(async () => {
+    if (!nextCursor || loading) return
     
-    const nextPage = page + 1
+    const requestedSort = sortBy
     setLoading(true)
     
     try {
-      const morePhotos = await getAllPhotos({
-        page: nextPage,
-        limit: 12,
-        orderBy: sortBy
-      })
+      const page = await fetchGalleryPage(requestedSort, userId, nextCursor)
       
-      if (morePhotos.length > 0) {
-        setPhotos(prevPhotos => [...prevPhotos, ...morePhotos])
-        setHasMore(morePhotos.length === 12)
-        setPage(nextPage)
-      } else {
-        setHasMore(false)
-      }
+      if (activeSort.current !== requestedSort) return
+      
+      setPhotos(prevPhotos => [...prevPhotos, ...page.items])
+      setNextCursor(page.nextCursor)
     } catch (error) {
       console.error('Error loading more photos:', error)
     } finally {
       setLoading(false)
     }
-  }
+  }, [nextCursor, loading, sortBy, userId])
+  
+  // Infinite scroll: fetch the next page as the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !nextCursor) return
+    
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) {
+        loadMorePhotos()
+      }
+    }, { rootMargin: "400px" })
+    
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [nextCursor, loadMorePhotos])
   
   return (
     <div className="container py-10">
@@ -75,20 +111,37 @@ export default function GalleryPage() {
         <div className="flex items-center gap-2">
           <Select
             value={sortBy}
-            onValueChange={(value) => setSortBy(value as 'latest' | 'top_rated' | 'popular')}
+            onValueChange={(value) => setSortBy(value as GalleryView)}
           >
             <SelectTrigger className="w-[180px]">
               <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="for_you">For You</SelectItem>
+              {user && <SelectItem value="following">Following</SelectItem>}
               <SelectItem value="latest">Latest</SelectItem>
               <SelectItem value="top_rated">Top Rated</SelectItem>
+              <SelectItem value="trending">Trending</SelectItem>
               <SelectItem value="popular">Most Popular</SelectItem>
+              <SelectItem value="head_to_head">Head-to-Head</SelectItem>
             </SelectContent>
           </Select>
+          
+          <Button variant="outline" asChild>
+            <Link href="/matchup">
+              <Swords className="h-4 w-4 mr-2" />
+              Play Matchups
+            </Link>
+          </Button>
         </div>
       </div>
       
+      {sortBy === 'following' && suggested && (
+        <p className="text-sm text-gray-500 mb-6">
+          Nobody you follow has posted yet. Here are some top rated photos to get you started.
+        </p>
+      )}
+      
       {loading && photos.length === 0 ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
           {[...Array(8)].map((_, i) => (
@@ -109,6 +162,9 @@ export default function GalleryPage() {
                 key={photo.id}
                 id={photo.id}
                 imageUrl={photo.image_url}
+                imageVariants={photo.image_variants}
+                blurDataUrl={photo.blur_data_url}
+                dominantColor={photo.dominant_color}
                 title={photo.title}
                 description={photo.description}
                 rating={photo.rating}
@@ -119,12 +175,14 @@ export default function GalleryPage() {
                 userAvatar={photo.user?.avatar_url}
                 userId={photo.user_id}
                 createdAt={photo.created_at}
+                tags={photo.tags}
+                viewerState={user ? viewerStates[photo.id] ?? null : undefined}
               />
             ))}
           </div>
           
-          {hasMore && (
-            <div className="flex justify-center mt-10">
+          {nextCursor && (
+            <div ref={sentinelRef} className="flex justify-center mt-10">
               <Button 
                 variant="outline" 
                 size="lg"
@@ -0,0 +1,175 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Trophy } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { avatarSrcSet } from "@/lib/image-variants"
+import { ResponsiveImage } from "@/components/responsive-image"
+import { Card, CardContent } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { getLeaderboard } from "@/lib/rating-service"
+import {
+  LEADERBOARD_PERIODS,
+  MIN_ATHLETE_VOTES,
+  MIN_PHOTO_VOTES,
+  type Leaderboard,
+  type LeaderboardPeriod
+} from "@/lib/leaderboard"
+
+function RankBadge({ rank }: { rank: number }) {
+  const colors = ["text-yellow-500", "text-gray-400", "text-amber-700"]
+
+  return (
+    <span className={`w-8 text-center text-lg font-bold ${colors[rank - 1] || "text-gray-500"}`}>
+      {rank}
+    </span>
+  )
+}
+
+function LoadingRows() {
+  return (
+    <div className="space-y-3">
+      {[...Array(5)].map((_, i) => (
+        <div key={i} className="h-16 rounded-lg bg-gray-200 animate-pulse" />
+      ))}
+    </div>
+  )
+}
+
+export default function LeaderboardPage() {
+  const [period, setPeriod] = useState<LeaderboardPeriod>("week")
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadLeaderboard() {
+      setLoading(true)
+      const result = await getLeaderboard(period)
+
+      // Ignore responses for a period the user already switched away from
+      if (!cancelled) {
+        setLeaderboard(result)
+        setLoading(false)
+      }
+    }
+
+    loadLeaderboard()
+
+    return () => {
+      cancelled = true
+    }
+  }, [period])
+
+  return (
+    <div className="container py-10 max-w-3xl">
+      <div className="flex items-center gap-2 mb-2">
+        <Trophy className="h-7 w-7 text-yellow-500" />
+        <h1 className="text-3xl font-bold">Leaderboard</h1>
+      </div>
+      <p className="text-gray-500 dark:text-gray-400 mb-8">
+        Ranked by weighted rating, so a handful of perfect scores can&apos;t beat a long track record.
+      </p>
+
+      <Tabs value={period} onValueChange={(value) => setPeriod(value as LeaderboardPeriod)}>
+        <TabsList className="mb-6">
+          {LEADERBOARD_PERIODS.map(p => (
+            <TabsTrigger key={p.value} value={p.value}>{p.label}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Tabs defaultValue="photos">
+        <TabsList className="mb-6">
+          <TabsTrigger value="photos">Photos</TabsTrigger>
+          <TabsTrigger value="athletes">Athletes</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="photos">
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Photos uploaded in this period with at least {MIN_PHOTO_VOTES} votes.
+          </p>
+
+          {loading ? (
+            <LoadingRows />
+          ) : leaderboard && leaderboard.photos.length > 0 ? (
+            <div className="space-y-3">
+              {leaderboard.photos.map((photo, index) => (
+                <Card key={photo.id}>
+                  <CardContent className="flex items-center gap-4 p-3">
+                    <RankBadge rank={index + 1} />
+                    <Link href={`/photos/${photo.id}`} className="relative h-14 w-14 shrink-0 overflow-hidden rounded-md">
+                      <ResponsiveImage src={photo.image_url} variants={photo.image_variants} alt={photo.title} sizes="56px" className="object-cover" />
+                    </Link>
+                    <div className="min-w-0 flex-1">
+                      <Link href={`/photos/${photo.id}`} className="block font-medium truncate hover:underline">
+                        {photo.title}
+                      </Link>
+                      {photo.user && (
+                        <Link href={`/users/${photo.user.username}`} className="text-sm text-gray-500 hover:underline">
+                          @{photo.user.username}
+                        </Link>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold">{(photo.weighted_rating || 0).toFixed(2)}</p>
+                      <p className="text-xs text-gray-500">{photo.votes_count || 0} votes</p>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+              No photos have enough votes in this period yet.
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="athletes">
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Athletes who received at least {MIN_ATHLETE_VOTES} ratings in this period.
+          </p>
+
+          {loading ? (
+            <LoadingRows />
+          ) : leaderboard && leaderboard.athletes.length > 0 ? (
+            <div className="space-y-3">
+              {leaderboard.athletes.map((entry, index) => (
+                <Card key={entry.profile.id}>
+                  <CardContent className="flex items-center gap-4 p-3">
+                    <RankBadge rank={index + 1} />
+                    <Link href={`/users/${entry.profile.username}`}>
+                      <Avatar className="h-12 w-12">
+                        <AvatarImage src={entry.profile.avatar_url || ""} srcSet={avatarSrcSet(entry.profile.avatar_url)} />
+                        <AvatarFallback>{entry.profile.username?.[0] || "U"}</AvatarFallback>
+                      </Avatar>
+                    </Link>
+                    <div className="min-w-0 flex-1">
+                      <Link href={`/users/${entry.profile.username}`} className="block font-medium truncate hover:underline">
+                        {entry.profile.full_name || entry.profile.username}
+                      </Link>
+                      <p className="text-sm text-gray-500">@{entry.profile.username}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold">{entry.weightedRating.toFixed(2)}</p>
+                      <p className="text-xs text-gray-500">
+                        {entry.averageRating.toFixed(1)} avg · {entry.votesCount} ratings
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+              No athletes have enough ratings in this period yet.
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Loader2, Swords, SkipForward } from "lucide-react"
+import { useAuth } from "@/lib/auth-context"
+import { useToast } from "@/components/ui/use-toast"
+import { getMatchupPair, recordMatchup, type MatchupPair } from "@/lib/matchup-service"
+import { type Photo } from "@/lib/photo-service"
+
+export default function MatchupPage() {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [pair, setPair] = useState<MatchupPair | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [judged, setJudged] = useState(0)
+
+  const loadPair = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const nextPair = await getMatchupPair()
+      setPair(nextPair)
+    } catch (error) {
+      console.error('Error loading matchup:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadPair()
+  }, [loadPair])
+
+  const handlePick = async (winner: Photo) => {
+    if (!user || !pair || submitting) return
+
+    setSubmitting(true)
+    const { success, error } = await recordMatchup(pair.id, winner.id)
+    setSubmitting(false)
+
+    if (success) {
+      setJudged(prev => prev + 1)
+      loadPair()
+    } else {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to record your pick. Please try again."
+      })
+    }
+  }
+
+  return (
+    <div className="container max-w-5xl py-10">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold flex items-center justify-center gap-2">
+          <Swords className="h-7 w-7" />
+          Which physique is better?
+        </h1>
+        <p className="text-gray-500 mt-2">
+          Tap the photo you think wins. {judged > 0 && `You've judged ${judged} this session.`}
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : pair ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {pair.photos.map(photo => (
+              <Card
+                key={photo.id}
+                className={`overflow-hidden cursor-pointer transition-all hover:shadow-lg hover:ring-2 hover:ring-primary ${submitting ? "opacity-60 pointer-events-none" : ""}`}
+                onClick={() => handlePick(photo)}
+              >
+                <div className="relative aspect-[3/4]">
+                  <Image
+                    src={photo.image_url}
+                    alt={photo.title}
+                    fill
+                    sizes="(max-width: 768px) 100vw, 50vw"
+                    className="object-cover"
+                  />
+                </div>
+                <CardContent className="p-4 flex justify-between items-center">
+                  <h3 className="font-semibold truncate">{photo.title}</h3>
+                  {photo.user?.username && (
+                    <Link
+                      href={`/users/${photo.user.username}`}
+                      className="text-sm text-gray-500 hover:underline"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      @{photo.user.username}
+                    </Link>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="flex justify-center mt-6">
+            <Button variant="ghost" onClick={loadPair} disabled={submitting}>
+              <SkipForward className="h-4 w-4 mr-2" />
+              Skip
+            </Button>
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-20">
+          <h3 className="text-xl font-medium mb-2">No matchups available</h3>
+          <p className="text-gray-500 dark:text-gray-400 mb-6">
+            Check back once more photos have been uploaded.
+          </p>
+          <Button asChild variant="outline">
+            <Link href="/gallery">Back to Gallery</Link>
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
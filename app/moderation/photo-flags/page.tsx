@@ -0,0 +1,145 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Loader2, ShieldAlert } from "lucide-react"
+import { useAuth } from "@/lib/auth-context"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  fetchPhotoFlagQueue,
+  submitPhotoFlagReview,
+  type PhotoFlag,
+  type PhotoFlagStatus
+} from "@/lib/duplicate-detection"
+
+export default function PhotoFlagsPage() {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [flags, setFlags] = useState<PhotoFlag[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+
+  const loadFlags = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      setFlags(await fetchPhotoFlagQueue())
+      setLoadError(null)
+    } catch (error) {
+      console.error('Error loading photo flags:', error)
+      setLoadError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadFlags()
+  }, [loadFlags])
+
+  const handleReview = async (flag: PhotoFlag, decision: Exclude<PhotoFlagStatus, "pending">) => {
+    if (reviewingId) return
+
+    setReviewingId(flag.id)
+    const { success, error } = await submitPhotoFlagReview(flag.id, decision)
+    setReviewingId(null)
+
+    if (success) {
+      setFlags(prev => prev.filter(f => f.id !== flag.id))
+    } else {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to review the flag. Please try again."
+      })
+    }
+  }
+
+  if (!user) {
+    return (
+      <div className="container max-w-3xl py-20 text-center">
+        <h3 className="text-xl font-medium mb-2">Sign in to review flags</h3>
+        <Button asChild variant="outline">
+          <Link href="/login">Sign In</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container max-w-3xl py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <ShieldAlert className="h-7 w-7" />
+          Flagged uploads
+        </h1>
+        <p className="text-gray-500 mt-2">
+          Uploads that look like another user&apos;s photo. Confirm copies, clear false matches.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : loadError ? (
+        <div className="text-center py-20">
+          <h3 className="text-xl font-medium mb-2">Couldn&apos;t load flags</h3>
+          <p className="text-gray-500 dark:text-gray-400">{loadError}</p>
+        </div>
+      ) : flags.length === 0 ? (
+        <div className="text-center py-20">
+          <h3 className="text-xl font-medium mb-2">Nothing to review</h3>
+          <p className="text-gray-500 dark:text-gray-400">
+            New near-duplicate uploads will show up here.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {flags.map(flag => (
+            <Card key={flag.id}>
+              <CardContent className="p-4 flex gap-4 items-center">
+                <div className="relative h-24 w-24 flex-shrink-0 overflow-hidden rounded">
+                  <Image src={flag.image_url} alt="Flagged upload" fill sizes="96px" className="object-cover" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">
+                    {flag.distance === 0 ? "Identical to" : `${flag.distance} of 64 bits from`}{" "}
+                    <Link href={`/photos/${flag.original_photo_id}`} className="underline">
+                      the original photo
+                    </Link>
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Flagged {new Date(flag.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex flex-col gap-2">
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={reviewingId !== null}
+                    onClick={() => handleReview(flag, "confirmed")}
+                  >
+                    Confirm copy
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={reviewingId !== null}
+                    onClick={() => handleReview(flag, "cleared")}
+                  >
+                    Clear
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
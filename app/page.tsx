@@ -7,6 +7,7 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { ArrowRight, Star, Upload, Users } from "lucide-react"
 import Image from "next/image"
+import { TrendingSection } from "@/components/trending-section"
 
 export default function HomePage() {
   const { user } = useAuth()
@@ -56,6 +57,8 @@ export default function HomePage() {
         </div>
       </section>
 
+      <TrendingSection />
+
       <section className="w-full py-12 md:py-24 lg:py-32">
         <div className="container px-4 md:px-6">
           <div className="flex flex-col items-center justify-center space-y-4 text-center">
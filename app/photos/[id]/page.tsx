@@ -9,11 +9,18 @@ import { Button } from "@/components/ui/button"
 import { PhotoRating } from "@/components/photo-rating"
 import { CommentSection } from "@/components/comment-section"
 import { Loader2, ArrowLeft, Heart, MessageSquare } from "lucide-react"
-import Image from "next/image"
 import Link from "next/link"
 import { formatDistanceToNow } from "date-fns"
 import { useToast } from "@/components/ui/use-toast"
 import { PhotoCard } from "@/components/photo-card"
+import { RatingBreakdown } from "@/components/rating-breakdown"
+import { DimensionRating } from "@/components/dimension-rating"
+import { ScoreTimeline } from "@/components/score-timeline"
+import { FeedbackSummary } from "@/components/feedback-summary"
+import { useAuth } from "@/lib/auth-context"
+import { DEFAULT_RATING_DIMENSIONS, type RatingDimension } from "@/lib/rating-dimensions"
+import { avatarSrcSet } from "@/lib/image-variants"
+import { ResponsiveImage } from "@/components/responsive-image"
 
 export default function PhotoDetailPage() {
   const params = useParams()
@@ -25,8 +32,10 @@ export default function PhotoDetailPage() {
   const [error, setError] = useState<string | null>(null)
   
   const { toast } = useToast()
+  const { user } = useAuth()
 
   const [isLiked, setIsLiked] = useState(false)
+  const [ratingVersion, setRatingVersion] = useState(0)
 
   
   useEffect(() => {
@@ -63,6 +72,18 @@ export default function PhotoDetailPage() {
     )
   }
   
+  const dimensions = photo?.rating_dimensions?.length 
+    ? photo.rating_dimensions 
+    : DEFAULT_RATING_DIMENSIONS
+  const dimensionAverages: Partial<Record<RatingDimension, number>> = {}
+  const dimensionCounts: Partial<Record<RatingDimension, number>> = {}
+  
+  Object.entries(photo?.dimension_ratings || {}).forEach(([key, aggregate]) => {
+    if (!aggregate) return
+    dimensionAverages[key as RatingDimension] = aggregate.average
+    dimensionCounts[key as RatingDimension] = aggregate.count
+  })
+  
   if (error || !photo) {
     return (
       <div className="container py-12">
@@ -98,7 +119,7 @@ export default function PhotoDetailPage() {
         <CardHeader className="p-4 border-b">
           <div className="flex items-center gap-3">
             <Avatar>
-              <AvatarImage src={photo.user?.avatar_url || ""} />
+              <AvatarImage src={photo.user?.avatar_url || ""} srcSet={avatarSrcSet(photo.user?.avatar_url)} />
               <AvatarFallback>
                 {photo.user?.username?.[0]?.toUpperCase() || "U"}
               </AvatarFallback>
@@ -119,11 +140,18 @@ export default function PhotoDetailPage() {
         
         <CardContent className="p-0">
           {photo && photo.image_url ? (
-            <div className="relative aspect-video w-full">
-              <Image
+            <div
+              className={`relative w-full max-h-[80vh] ${photo.image_width && photo.image_height ? "" : "aspect-video"}`}
+              // Reserve the photo's real shape up front so nothing jumps when it loads
+              style={photo.image_width && photo.image_height ? { aspectRatio: `${photo.image_width} / ${photo.image_height}` } : undefined}
+            >
+              <ResponsiveImage
                 src={photo.image_url}
+                variants={photo.image_variants}
+                blurDataUrl={photo.blur_data_url}
+                dominantColor={photo.dominant_color}
                 alt={photo.title || "Photo"}
-                fill
+                sizes="(max-width: 1024px) 100vw, 1024px"
                 className="object-contain"
                 priority
               />
@@ -140,6 +168,15 @@ export default function PhotoDetailPage() {
               {photo.description}
             </p>
           )}
+          {photo.tags && photo.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {photo.tags.map(tag => (
+                <Link key={tag} href={`/tags/${encodeURIComponent(tag)}`} className="text-sm text-blue-600 hover:underline">
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
           
           <div className="flex items-center justify-between py-4 border-t border-b">
             <CardFooter className="p-4 pt-0 flex justify-between items-center">
@@ -162,6 +199,14 @@ export default function PhotoDetailPage() {
                 <span className="text-sm text-gray-500 ml-1">
                   ({photo.votes_count || 0} votes)
                 </span>
+                {photo.votes_count > 0 && photo.calibrated_rating != null && photo.calibrated_rating !== photo.rating && (
+                  <span 
+                    className="text-sm text-gray-500 ml-2" 
+                    title="Adjusted for how harshly or generously each rater usually scores"
+                  >
+                    · {photo.calibrated_rating.toFixed(1)} calibrated
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -170,11 +215,17 @@ export default function PhotoDetailPage() {
             <PhotoRating 
               photoId={photo.id} 
               initialRating={0}
-              onRatingChange={(oldRating, newRating) => {
+              showHistory
+              onRatingChange={(oldRating, newRating, aggregate) => {
+                setRatingVersion(prev => prev + 1)
                 // Update the UI with the new rating
                 setPhoto(prev => {
                   if (!prev) return prev
                   
+                  if (aggregate) {
+                    return { ...prev, ...aggregate }
+                  }
+                  
                   const newVotesCount = prev.votes_count + (oldRating === 0 ? 1 : 0)
                   // Calculate newRating first before using it
                   const newTotalRating = (prev.rating * prev.votes_count) - oldRating + newRating
@@ -189,6 +240,42 @@ export default function PhotoDetailPage() {
               }}
             />
           </div>
+          
+          <div className="grid gap-6 md:grid-cols-2 py-4 border-t">
+            <div>
+              <h3 className="font-medium mb-3">Rating Breakdown</h3>
+              <RatingBreakdown 
+                dimensions={dimensions} 
+                averages={dimensionAverages} 
+                counts={dimensionCounts} 
+              />
+            </div>
+            <div>
+              <h3 className="font-medium mb-3">Rate by Category</h3>
+              <DimensionRating 
+                photoId={photo.id} 
+                dimensions={dimensions}
+                onRated={(aggregate) => {
+                  setRatingVersion(prev => prev + 1)
+                  if (aggregate) {
+                    setPhoto(prev => prev ? { ...prev, ...aggregate } : prev)
+                  }
+                }}
+              />
+            </div>
+          </div>
+          
+          <div className="py-4 border-t">
+            <h3 className="font-medium mb-3">Score Over Time</h3>
+            <ScoreTimeline photoId={photo.id} refreshKey={ratingVersion} />
+          </div>
+          
+          {user && user.id === photo.user_id && (
+            <div className="py-4 border-t">
+              <h3 className="font-medium mb-3">Feedback From Raters</h3>
+              <FeedbackSummary photoIds={[photo.id]} />
+            </div>
+          )}
         </CardContent>
         
       </Card>
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { avatarSrcSet } from "@/lib/image-variants"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
@@ -22,9 +23,14 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { getUserPhotos, deletePhoto, type Photo } from "@/lib/photo-service"
 import Link from "next/link"
 import { getUserStats } from "@/lib/rating-service"
+import { type UserStats } from "@/lib/user-stats"
 import { Progress } from "@/components/ui/progress"
 import { Skeleton } from "@/components/ui/skeleton"
 import { PhotoCard } from "@/components/photo-card"
+import { useViewerState } from "@/hooks/use-viewer-state"
+import { RatingBreakdown } from "@/components/rating-breakdown"
+import { Badge } from "@/components/ui/badge"
+import { DEFAULT_RATING_DIMENSIONS } from "@/lib/rating-dimensions"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { 
   Sheet, 
@@ -36,19 +42,6 @@ import {
   SheetTrigger 
 } from "@/components/ui/sheet"
 
-type UserStats = {
-  totalUploads: number
-  totalRatings: number
-  averageRatingGiven: number
-  averageRatingReceived: number
-  ratingDistribution: {
-    '9-10': number
-    '7-8': number
-    '5-6': number
-    '1-4': number
-  }
-}
-
 export default function ProfilePage() {
   const { user, signOut } = useAuth()
   
@@ -66,6 +59,7 @@ export default function ProfilePage() {
   
   const [userPhotos, setUserPhotos] = useState<Photo[]>([])
   const [loadingPhotos, setLoadingPhotos] = useState(false)
+  const viewerStates = useViewerState(userPhotos)
   
   const [stats, setStats] = useState<UserStats | null>(null)
   const [loadingStats, setLoadingStats] = useState(false)
@@ -73,6 +67,8 @@ export default function ProfilePage() {
   const [followers, setFollowers] = useState<Profile[]>([])
   const [following, setFollowing] = useState<Profile[]>([])
   const [loadingFollowers, setLoadingFollowers] = useState(false)
+  const [followersCursor, setFollowersCursor] = useState<string | null>(null)
+  const [followingCursor, setFollowingCursor] = useState<string | null>(null)
   
   // Add state for modals/sheets and form visibility
   const [showProfileForm, setShowProfileForm] = useState(false)
@@ -160,8 +156,10 @@ export default function ProfilePage() {
           getFollowing(user.id)
         ])
         
-        setFollowers(userFollowers || [])
-        setFollowing(userFollowing || [])
+        setFollowers(userFollowers.items)
+        setFollowersCursor(userFollowers.nextCursor)
+        setFollowing(userFollowing.items)
+        setFollowingCursor(userFollowing.nextCursor)
       } catch (err) {
         console.error("Error loading social data:", err)
       } finally {
@@ -172,6 +170,21 @@ export default function ProfilePage() {
     loadSocial()
   }, [user])
   
+  // Append the next page of followers or followed users
+  const loadMoreSocial = async (kind: 'followers' | 'following') => {
+    if (!user) return
+    
+    if (kind === 'followers' && followersCursor) {
+      const page = await getFollowers(user.id, { cursor: followersCursor })
+      setFollowers(prev => [...prev, ...page.items])
+      setFollowersCursor(page.nextCursor)
+    } else if (kind === 'following' && followingCursor) {
+      const page = await getFollowing(user.id, { cursor: followingCursor })
+      setFollowing(prev => [...prev, ...page.items])
+      setFollowingCursor(page.nextCursor)
+    }
+  }
+  
   // Handle avatar file selection
   const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -325,7 +338,7 @@ export default function ProfilePage() {
           {/* Larger avatar on the left */}
           <div className="md:w-1/3 flex justify-center">
             <Avatar className="w-32 h-32 md:w-36 md:h-36 border-2 border-white shadow">
-              <AvatarImage src={profile.avatar_url || ""} alt={profile.username || "Profile"} />
+              <AvatarImage src={profile.avatar_url || ""} srcSet={avatarSrcSet(profile.avatar_url)} alt={profile.username || "Profile"} />
               <AvatarFallback>{profile.username?.[0]?.toUpperCase() || user.email?.[0]?.toUpperCase() || "U"}</AvatarFallback>
             </Avatar>
           </div>
@@ -554,6 +567,9 @@ export default function ProfilePage() {
                     key={photo.id}
                     id={photo.id}
                     imageUrl={photo.image_url}
+                    imageVariants={photo.image_variants}
+                    blurDataUrl={photo.blur_data_url}
+                    dominantColor={photo.dominant_color}
                     title={photo.title || ""}
                     description={photo.description || ""}
                     rating={photo.rating || 0}
@@ -564,8 +580,10 @@ export default function ProfilePage() {
                     userAvatar={profile.avatar_url || ""}
                     userId={photo.user_id}
                     createdAt={photo.created_at}
+                    tags={photo.tags}
                     showDeleteButton={true}
                     onDelete={() => handleDeletePhoto(photo.id)}
+                    viewerState={viewerStates[photo.id] ?? null}
                         />
                       ))}
                     </div>
@@ -684,6 +702,40 @@ export default function ProfilePage() {
                       </div>
                     </div>
                     
+                    {/* Per-dimension breakdown */}
+                    <div className="mt-6 bg-white p-5 rounded-xl border shadow-sm">
+                      <h3 className="font-medium mb-4 text-gray-800">Physique Breakdown</h3>
+                      <RatingBreakdown 
+                        dimensions={DEFAULT_RATING_DIMENSIONS} 
+                        averages={stats.dimensionAverages} 
+                      />
+                    </div>
+                    
+                    {/* Rater feedback */}
+                    {(stats.topStrengths.length > 0 || stats.topWeaknesses.length > 0) && (
+                      <div className="mt-6 bg-white p-5 rounded-xl border shadow-sm">
+                        <h3 className="font-medium mb-4 text-gray-800">What Raters Say</h3>
+                        <div className="grid gap-4 sm:grid-cols-2">
+                          <div>
+                            <p className="text-sm font-medium text-gray-700 mb-2">Strengths</p>
+                            <div className="flex flex-wrap gap-1">
+                              {stats.topStrengths.map(({ chip, count }) => (
+                                <Badge key={chip} variant="secondary">{chip} · {count}</Badge>
+                              ))}
+                            </div>
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium text-gray-700 mb-2">Could improve</p>
+                            <div className="flex flex-wrap gap-1">
+                              {stats.topWeaknesses.map(({ chip, count }) => (
+                                <Badge key={chip} variant="outline">{chip} · {count}</Badge>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    
                     {/* Motivational text */}
                     <div className="mt-6 text-center">
                       <p className="text-sm text-gray-600 italic">
@@ -738,7 +790,7 @@ export default function ProfilePage() {
                       className="flex items-center gap-3 p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
                     >
                       <Avatar>
-                        <AvatarImage src={follower.avatar_url || ""} alt={follower.username || "User"} />
+                        <AvatarImage src={follower.avatar_url || ""} srcSet={avatarSrcSet(follower.avatar_url)} alt={follower.username || "User"} />
                         <AvatarFallback>{follower.username?.[0]?.toUpperCase() || "U"}</AvatarFallback>
                       </Avatar>
                       <div className="min-w-0">
@@ -750,6 +802,11 @@ export default function ProfilePage() {
                     </Link>
                   ))}
                     </div>
+                {followersCursor && (
+                  <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => loadMoreSocial('followers')}>
+                    Load more
+                  </Button>
+                )}
                   </div>
             )}
           </DialogContent>
@@ -782,7 +839,7 @@ export default function ProfilePage() {
                       className="flex items-center gap-3 p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
                     >
                       <Avatar>
-                        <AvatarImage src={followed.avatar_url || ""} alt={followed.username || "User"} />
+                        <AvatarImage src={followed.avatar_url || ""} srcSet={avatarSrcSet(followed.avatar_url)} alt={followed.username || "User"} />
                         <AvatarFallback>{followed.username?.[0]?.toUpperCase() || "U"}</AvatarFallback>
                       </Avatar>
                       <div className="min-w-0">
@@ -794,6 +851,11 @@ export default function ProfilePage() {
                     </Link>
                   ))}
                 </div>
+                {followingCursor && (
+                  <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => loadMoreSocial('following')}>
+                    Load more
+                  </Button>
+                )}
               </div>
             )}
           </DialogContent>
@@ -0,0 +1,130 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { getAllPhotos, type Photo } from "@/lib/photo-service"
+import { normalizeTag } from "@/lib/photo-tags"
+import { PhotoCard } from "@/components/photo-card"
+import { useViewerState } from "@/hooks/use-viewer-state"
+import { useAuth } from "@/lib/auth-context"
+
+const PAGE_SIZE = 12
+
+export default function TagPage() {
+  const params = useParams()
+  const { user } = useAuth()
+  const tag = normalizeTag(decodeURIComponent(params.tag as string))
+
+  const [photos, setPhotos] = useState<Photo[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const viewerStates = useViewerState(photos)
+
+  // Load the newest photos with this tag
+  useEffect(() => {
+    async function loadPhotos() {
+      setLoading(true)
+
+      try {
+        const page = await getAllPhotos({ tag, limit: PAGE_SIZE, orderBy: 'latest' })
+        setPhotos(page.items)
+        setNextCursor(page.nextCursor)
+      } catch (error) {
+        console.error('Error loading tagged photos:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPhotos()
+  }, [tag])
+
+  const loadMorePhotos = async () => {
+    if (!nextCursor || loading) return
+
+    setLoading(true)
+
+    try {
+      const page = await getAllPhotos({ tag, cursor: nextCursor, limit: PAGE_SIZE, orderBy: 'latest' })
+      setPhotos(prev => [...prev, ...page.items])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error loading more tagged photos:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="container py-10">
+      <Button variant="ghost" size="sm" asChild className="mb-4">
+        <Link href="/gallery">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to gallery
+        </Link>
+      </Button>
+
+      <h1 className="text-3xl font-bold mb-8">#{tag}</h1>
+
+      {loading && photos.length === 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i} className="overflow-hidden">
+              <div className="relative aspect-[3/4] bg-gray-200 animate-pulse" />
+              <CardContent className="p-4">
+                <div className="h-5 w-3/4 bg-gray-200 animate-pulse mb-2 rounded" />
+                <div className="h-4 w-1/2 bg-gray-200 animate-pulse rounded" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : photos.length > 0 ? (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {photos.map((photo) => (
+              <PhotoCard
+                key={photo.id}
+                id={photo.id}
+                imageUrl={photo.image_url}
+                imageVariants={photo.image_variants}
+                blurDataUrl={photo.blur_data_url}
+                dominantColor={photo.dominant_color}
+                title={photo.title}
+                description={photo.description}
+                rating={photo.rating}
+                votesCount={photo.votes_count}
+                likesCount={photo.likes_count}
+                commentsCount={photo.comments_count}
+                username={photo.user?.username}
+                userAvatar={photo.user?.avatar_url}
+                userId={photo.user_id}
+                createdAt={photo.created_at}
+                tags={photo.tags}
+                viewerState={user ? viewerStates[photo.id] ?? null : undefined}
+              />
+            ))}
+          </div>
+
+          {nextCursor && (
+            <div className="flex justify-center mt-10">
+              <Button variant="outline" size="lg" onClick={loadMorePhotos} disabled={loading}>
+                {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load More"}
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="text-center py-20">
+          <h3 className="text-xl font-medium mb-2">No photos tagged #{tag} yet</h3>
+          <p className="text-gray-500 dark:text-gray-400">
+            Add this tag when you upload to be the first.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -12,6 +12,10 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/componen
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Loader2, Upload, Image as ImageIcon, X, Check, Crop as CropIcon } from "lucide-react"
 import { Slider } from "@/components/ui/slider"
+import { Checkbox } from "@/components/ui/checkbox"
+import { DEFAULT_RATING_DIMENSIONS, RATING_DIMENSIONS, type RatingDimension } from "@/lib/rating-dimensions"
+import { TagInput } from "@/components/tag-input"
+import { ACCEPTED_IMAGE_TYPES, validateImageFile } from "@/lib/image-validation"
 
 export default function UploadPage() {
   const { user } = useAuth()
@@ -28,11 +32,22 @@ export default function UploadPage() {
   const [isCropping, setIsCropping] = useState(false)
   const [zoom, setZoom] = useState(1)
   const [originalImage, setOriginalImage] = useState<string | null>(null)
+  const [ratingDimensions, setRatingDimensions] = useState<RatingDimension[]>(DEFAULT_RATING_DIMENSIONS)
+  const [tags, setTags] = useState<string[]>([])
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
     if (!selectedFile) return
     
+    // The server re-checks the actual bytes; this just catches the obvious cases early
+    const validationError = validateImageFile(selectedFile)
+    if (validationError) {
+      setError(validationError.message)
+      e.target.value = ""
+      return
+    }
+    
+    setError(null)
     setFile(selectedFile)
 
     // Create a preview URL
@@ -45,6 +60,14 @@ export default function UploadPage() {
       reader.readAsDataURL(selectedFile)
   }
   
+  const toggleDimension = (dimension: RatingDimension, checked: boolean) => {
+    setRatingDimensions(prev => 
+      checked 
+        ? RATING_DIMENSIONS.map(d => d.key).filter(key => key === dimension || prev.includes(key))
+        : prev.filter(key => key !== dimension)
+    )
+  }
+  
   const handleCropStart = () => {
     setIsCropping(true)
   }
@@ -149,7 +172,9 @@ export default function UploadPage() {
         userId: user.id,
         file,
         title: title.trim(),
-        description: description.trim() || undefined
+        description: description.trim() || undefined,
+        tags,
+        ratingDimensions
       })
       
       if (!success || !photoId) {
@@ -299,6 +324,32 @@ export default function UploadPage() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="tags">Tags (optional)</Label>
+              <TagInput id="tags" value={tags} onChange={setTags} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rate me on</Label>
+              <div className="grid grid-cols-2 gap-3">
+                {RATING_DIMENSIONS.map((dimension) => (
+                  <div key={dimension.key} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`dimension-${dimension.key}`}
+                      checked={ratingDimensions.includes(dimension.key)}
+                      onCheckedChange={(checked) => toggleDimension(dimension.key, checked === true)}
+                    />
+                    <div className="grid gap-0.5 leading-none">
+                      <Label htmlFor={`dimension-${dimension.key}`} className="font-normal">
+                        {dimension.label}
+                      </Label>
+                      <span className="text-xs text-gray-500">{dimension.description}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="photo">Photo</Label>
                   {previewUrl ? (
@@ -337,7 +388,7 @@ export default function UploadPage() {
                       <Input 
                   id="photo"
                   type="file"
-                  accept="image/*"
+                  accept={ACCEPTED_IMAGE_TYPES.join(",")}
                   onChange={handleFileChange}
                         className="hidden"
                       />
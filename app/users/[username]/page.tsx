@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { avatarSrcSet } from "@/lib/image-variants"
 import { useAuth } from "@/lib/auth-context"
 import { 
   getProfile,
@@ -18,6 +19,7 @@ import {
 } from "@/lib/profile-service"
 import { getUserPhotosByUsername, type Photo } from "@/lib/photo-service"
 import { PhotoCard } from "@/components/photo-card"
+import { useViewerState } from "@/hooks/use-viewer-state"
 import { Users, UserPlus, UserMinus, Loader2 } from "lucide-react"
 import { useParams, useRouter } from "next/navigation"
 
@@ -31,10 +33,13 @@ export default function UserProfilePage() {
   const [photos, setPhotos] = useState<Photo[]>([])
   const [followers, setFollowers] = useState<Profile[]>([])
   const [following, setFollowing] = useState<Profile[]>([])
+  const [followersCursor, setFollowersCursor] = useState<string | null>(null)
+  const [followingCursor, setFollowingCursor] = useState<string | null>(null)
   
   const [loading, setLoading] = useState(true)
   const [followLoading, setFollowLoading] = useState(false)
   const [isUserFollowing, setIsUserFollowing] = useState(false)
+  const viewerStates = useViewerState(photos)
   
   // Load profile and check follow status
   useEffect(() => {
@@ -67,8 +72,10 @@ export default function UserProfilePage() {
         ]);
         
         setPhotos(userPhotos);
-        setFollowers(userFollowers);
-        setFollowing(userFollowing);
+        setFollowers(userFollowers.items);
+        setFollowersCursor(userFollowers.nextCursor);
+        setFollowing(userFollowing.items);
+        setFollowingCursor(userFollowing.nextCursor);
         
         // Check if current user is following this profile
         if (user && user.id !== profileData.id) {
@@ -85,6 +92,21 @@ export default function UserProfilePage() {
     loadProfile();
   }, [username, user]);
   
+  // Append the next page of followers or followed users
+  const loadMoreSocial = async (kind: 'followers' | 'following') => {
+    if (!profile) return
+    
+    if (kind === 'followers' && followersCursor) {
+      const page = await getFollowers(profile.id, { cursor: followersCursor })
+      setFollowers(prev => [...prev, ...page.items])
+      setFollowersCursor(page.nextCursor)
+    } else if (kind === 'following' && followingCursor) {
+      const page = await getFollowing(profile.id, { cursor: followingCursor })
+      setFollowing(prev => [...prev, ...page.items])
+      setFollowingCursor(page.nextCursor)
+    }
+  }
+  
   // Handle follow/unfollow
   const handleToggleFollow = async () => {
     if (!user || !profile) return
@@ -98,10 +120,12 @@ export default function UserProfilePage() {
         setIsUserFollowing(false)
         // Update followers count
         setFollowers(prev => prev.filter(f => f.id !== user.id))
+        setProfile(prev => prev && { ...prev, followers_count: Math.max(0, (prev.followers_count || 0) - 1) })
       } else {
         // Follow
         await followUser(user.id, profile.id)
         setIsUserFollowing(true)
+        setProfile(prev => prev && { ...prev, followers_count: (prev.followers_count || 0) + 1 })
         // Add current user to followers (this is simplified)
         const currentUserProfile = await getProfile(user.id);
         if (currentUserProfile) {
@@ -140,7 +164,7 @@ export default function UserProfilePage() {
         <CardContent className="p-6">
           <div className="flex flex-col md:flex-row items-center gap-6">
             <Avatar className="h-24 w-24">
-              <AvatarImage src={profile.avatar_url || ""} />
+              <AvatarImage src={profile.avatar_url || ""} srcSet={avatarSrcSet(profile.avatar_url)} />
               <AvatarFallback>{profile.username?.[0] || "U"}</AvatarFallback>
             </Avatar>
             
@@ -159,11 +183,11 @@ export default function UserProfilePage() {
                   <span className="text-gray-500 ml-1">Posts</span>
                 </div>
                 <div>
-                  <span className="font-semibold">{followers.length}</span>
+                  <span className="font-semibold">{profile.followers_count || 0}</span>
                   <span className="text-gray-500 ml-1">Followers</span>
                 </div>
                 <div>
-                  <span className="font-semibold">{following.length}</span>
+                  <span className="font-semibold">{profile.following_count || 0}</span>
                   <span className="text-gray-500 ml-1">Following</span>
                 </div>
               </div>
@@ -217,6 +241,9 @@ export default function UserProfilePage() {
                   key={photo.id}
                   id={photo.id}
                   imageUrl={photo.image_url}
+                  imageVariants={photo.image_variants}
+                  blurDataUrl={photo.blur_data_url}
+                  dominantColor={photo.dominant_color}
                   title={photo.title}
                   description={photo.description}
                   rating={photo.rating}
@@ -226,6 +253,8 @@ export default function UserProfilePage() {
                   username={profile.username}
                   userAvatar={profile.avatar_url}
                   createdAt={photo.created_at}
+                  tags={photo.tags}
+                  viewerState={user ? viewerStates[photo.id] ?? null : undefined}
                 />
               ))}
             </div>
@@ -235,7 +264,7 @@ export default function UserProfilePage() {
         <TabsContent value="followers">
           <Card>
             <CardHeader>
-              <CardTitle>Followers ({followers.length})</CardTitle>
+              <CardTitle>Followers ({profile.followers_count || 0})</CardTitle>
             </CardHeader>
             <CardContent>
               {followers.length === 0 ? (
@@ -252,7 +281,7 @@ export default function UserProfilePage() {
                       className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
                     >
                       <Avatar>
-                        <AvatarImage src={follower.avatar_url || ""} />
+                        <AvatarImage src={follower.avatar_url || ""} srcSet={avatarSrcSet(follower.avatar_url)} />
                         <AvatarFallback>{follower.username?.[0] || "U"}</AvatarFallback>
                       </Avatar>
                       <div className="min-w-0">
@@ -265,6 +294,11 @@ export default function UserProfilePage() {
                   ))}
                 </div>
               )}
+              {followersCursor && (
+                <Button variant="ghost" size="sm" className="w-full mt-4" onClick={() => loadMoreSocial('followers')}>
+                  Load more
+                </Button>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -272,7 +306,7 @@ export default function UserProfilePage() {
         <TabsContent value="following">
           <Card>
             <CardHeader>
-              <CardTitle>Following ({following.length})</CardTitle>
+              <CardTitle>Following ({profile.following_count || 0})</CardTitle>
             </CardHeader>
             <CardContent>
               {following.length === 0 ? (
@@ -289,7 +323,7 @@ export default function UserProfilePage() {
                       className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
                     >
                       <Avatar>
-                        <AvatarImage src={followed.avatar_url || ""} />
+                        <AvatarImage src={followed.avatar_url || ""} srcSet={avatarSrcSet(followed.avatar_url)} />
                         <AvatarFallback>{followed.username?.[0] || "U"}</AvatarFallback>
                       </Avatar>
                       <div className="min-w-0">
@@ -302,6 +336,11 @@ export default function UserProfilePage() {
                   ))}
                 </div>
               )}
+              {followingCursor && (
+                <Button variant="ghost" size="sm" className="w-full mt-4" onClick={() => loadMoreSocial('following')}>
+                  Load more
+                </Button>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -4,12 +4,14 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { avatarSrcSet } from "@/lib/image-variants"
 import { Separator } from "@/components/ui/separator"
 import { getPhotoComments, addComment, type Comment } from "@/lib/photo-service"
 import { useAuth } from "@/lib/auth-context"
 import { formatDistanceToNow } from "date-fns"
 import { Loader2, MessageSquare, X } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { RatingJustificationForm } from "@/components/rating-justification-form"
 import {
   Dialog,
   DialogContent,
@@ -25,6 +27,8 @@ interface CommentSectionProps {
 export function CommentSection({ photoId }: CommentSectionProps) {
   const { user } = useAuth()
   const [comments, setComments] = useState<Comment[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
   const [newComment, setNewComment] = useState("")
   const [isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -41,8 +45,9 @@ export function CommentSection({ photoId }: CommentSectionProps) {
   async function loadComments() {
     setIsLoading(true)
     try {
-      const fetchedComments = await getPhotoComments(photoId)
-      setComments(fetchedComments)
+      const page = await getPhotoComments(photoId)
+      setComments(page.items)
+      setNextCursor(page.nextCursor)
     } catch (err) {
       setError("Failed to load suggestions")
       console.error(err)
@@ -51,6 +56,23 @@ export function CommentSection({ photoId }: CommentSectionProps) {
     }
   }
   
+  // Append the next page of older comments
+  async function loadMoreComments() {
+    if (!nextCursor) return
+    
+    setIsLoadingMore(true)
+    try {
+      const page = await getPhotoComments(photoId, { cursor: nextCursor })
+      setComments(prev => [...prev, ...page.items])
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      setError("Failed to load suggestions")
+      console.error(err)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+  
   // Submit a new comment
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -104,7 +126,7 @@ export function CommentSection({ photoId }: CommentSectionProps) {
       <DialogTrigger asChild>
         <Button variant="outline" size="sm" className="gap-2">
           <MessageSquare className="h-4 w-4" />
-          <span>Suggestions ({comments.length})</span>
+          <span>Suggestions ({comments.length}{nextCursor ? "+" : ""})</span>
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-hidden flex flex-col">
@@ -116,6 +138,11 @@ export function CommentSection({ photoId }: CommentSectionProps) {
         </DialogHeader>
         
         <div className="flex-1 overflow-hidden flex flex-col">
+          {/* Structured feedback tied to the user's rating */}
+          <div className="mb-4">
+            <RatingJustificationForm photoId={photoId} />
+          </div>
+          
           {/* Comment form */}
           <form onSubmit={handleSubmit} className="space-y-4 mb-4">
             {error && (
@@ -162,7 +189,7 @@ export function CommentSection({ photoId }: CommentSectionProps) {
               comments.map((comment) => (
                 <div key={comment.id} className="flex gap-3">
                   <Avatar className="h-8 w-8 flex-shrink-0">
-                    <AvatarImage src={comment.user?.avatar_url || ""} />
+                    <AvatarImage src={comment.user?.avatar_url || ""} srcSet={avatarSrcSet(comment.user?.avatar_url)} />
                     <AvatarFallback>
                       {comment.user?.username?.[0]?.toUpperCase() || "U"}
                     </AvatarFallback>
@@ -181,6 +208,14 @@ export function CommentSection({ photoId }: CommentSectionProps) {
                 </div>
               ))
             )}
+            
+            {nextCursor && !isLoading && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={loadMoreComments} disabled={isLoadingMore}>
+                  {isLoadingMore ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load older suggestions"}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </DialogContent>
@@ -0,0 +1,114 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { ratePhoto, getUserRatingScores } from "@/lib/rating-service"
+import { type PhotoAggregate } from "@/lib/rating-aggregation"
+import { getDimensionLabel, type DimensionScores, type RatingDimension } from "@/lib/rating-dimensions"
+import { useAuth } from "@/lib/auth-context"
+import { useToast } from "@/components/ui/use-toast"
+
+interface DimensionRatingProps {
+  photoId: string
+  dimensions: RatingDimension[]
+  onRated?: (aggregate?: PhotoAggregate) => void
+}
+
+export function DimensionRating({ photoId, dimensions, onRated }: DimensionRatingProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [scores, setScores] = useState<DimensionScores>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Prefill with the scores the user gave before
+  useEffect(() => {
+    async function loadScores() {
+      if (!user) return
+
+      const existing = await getUserRatingScores(user.id, photoId)
+      if (existing) {
+        setScores(existing)
+      }
+    }
+
+    loadScores()
+  }, [user, photoId])
+
+  const handleSubmit = async () => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to rate photos"
+      })
+      return
+    }
+
+    const filled: DimensionScores = {}
+    dimensions.forEach(dimension => {
+      if (scores[dimension] !== undefined) filled[dimension] = scores[dimension]
+    })
+
+    if (Object.keys(filled).length === 0) {
+      toast({
+        title: "Nothing to submit",
+        description: "Score at least one category first"
+      })
+      return
+    }
+
+    setIsSaving(true)
+    const { success, aggregate } = await ratePhoto(user.id, photoId, filled)
+    setIsSaving(false)
+
+    if (success) {
+      onRated?.(aggregate)
+      toast({
+        title: "Rating submitted",
+        description: "Thanks for the detailed feedback!"
+      })
+    } else {
+      toast({
+        title: "Error",
+        description: "Failed to rate photo. Please try again."
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {dimensions.map((dimension) => (
+        <div key={dimension}>
+          <div className="flex justify-between mb-2">
+            <span className="text-sm font-medium">{getDimensionLabel(dimension)}</span>
+            <span className="text-sm text-gray-500">
+              {scores[dimension] !== undefined ? `${scores[dimension]}/10` : "Not rated"}
+            </span>
+          </div>
+          <Slider
+            min={1}
+            max={10}
+            step={1}
+            value={[scores[dimension] ?? 5]}
+            onValueChange={(value) => setScores(prev => ({ ...prev, [dimension]: value[0] }))}
+            disabled={isSaving}
+          />
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSubmit} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Submit Detailed Rating"
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+}
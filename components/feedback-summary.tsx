@@ -0,0 +1,77 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+import { getFeedbackSummary, type FeedbackSummary as Summary } from "@/lib/rating-feedback"
+
+interface FeedbackSummaryProps {
+  photoIds: string[]
+}
+
+// Aggregated rater feedback, shown only to the owner of the photos
+export function FeedbackSummary({ photoIds }: FeedbackSummaryProps) {
+  const [summary, setSummary] = useState<Summary | null>(null)
+  const idsKey = photoIds.join(",")
+
+  useEffect(() => {
+    async function loadSummary() {
+      const result = await getFeedbackSummary(idsKey ? idsKey.split(",") : [])
+      setSummary(result)
+    }
+
+    loadSummary()
+  }, [idsKey])
+
+  if (!summary) {
+    return <div className="h-16 bg-gray-100 animate-pulse rounded" />
+  }
+
+  if (summary.totalWithFeedback === 0) {
+    return <p className="text-sm text-gray-500">No written feedback yet</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        From {summary.totalWithFeedback} rater{summary.totalWithFeedback === 1 ? "" : "s"}
+      </p>
+
+      {summary.strengths.length > 0 && (
+        <div>
+          <p className="text-sm font-medium mb-1">Strengths</p>
+          <div className="flex flex-wrap gap-1">
+            {summary.strengths.map(({ chip, count }) => (
+              <Badge key={chip} variant="secondary">{chip} · {count}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {summary.weaknesses.length > 0 && (
+        <div>
+          <p className="text-sm font-medium mb-1">Could improve</p>
+          <div className="flex flex-wrap gap-1">
+            {summary.weaknesses.map(({ chip, count }) => (
+              <Badge key={chip} variant="outline">{chip} · {count}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {summary.notes.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Notes</p>
+          {summary.notes.map((note, i) => (
+            <div key={i} className="bg-gray-100 dark:bg-gray-800 rounded-lg p-3">
+              <p className="text-sm break-words">{note.feedback}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                Rated {note.rating}/10 · {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
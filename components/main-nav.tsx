@@ -2,7 +2,7 @@
 
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { Home, User, Upload, Search, LogIn } from "lucide-react"
+import { Home, User, Upload, Search, LogIn, Swords, Trophy } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useAuth } from "@/lib/auth-context"
 import { NotificationsPopover } from "@/components/notifications"
@@ -41,6 +41,20 @@ export function MainNav() {
                 </Link>
               </Button>
               
+              <Button variant="ghost" size="icon" asChild>
+                <Link href="/matchup" className={pathname === "/matchup" ? "text-primary" : ""}>
+                  <Swords className="h-5 w-5" />
+                  <span className="sr-only">Matchups</span>
+                </Link>
+              </Button>
+              
+              <Button variant="ghost" size="icon" asChild>
+                <Link href="/leaderboard" className={pathname === "/leaderboard" ? "text-primary" : ""}>
+                  <Trophy className="h-5 w-5" />
+                  <span className="sr-only">Leaderboard</span>
+                </Link>
+              </Button>
+              
               <Button variant="ghost" size="icon" asChild>
                 <Link href="/upload" className={pathname === "/upload" ? "text-primary" : ""}>
                   <Upload className="h-5 w-5" />
@@ -67,6 +81,13 @@ export function MainNav() {
                 </Link>
               </Button>
               
+              <Button variant="ghost" size="icon" asChild>
+                <Link href="/leaderboard" className={pathname === "/leaderboard" ? "text-primary" : ""}>
+                  <Trophy className="h-5 w-5" />
+                  <span className="sr-only">Leaderboard</span>
+                </Link>
+              </Button>
+              
               <Button variant="outline" asChild>
                 <Link href="/login">
                   <LogIn className="h-4 w-4 mr-2" />
@@ -11,6 +11,7 @@ import {
 import { useAuth } from "@/lib/auth-context"
 import { getUserNotifications, markAllNotificationsAsRead, markNotificationAsRead, type Notification } from "@/lib/notification-service"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { avatarSrcSet } from "@/lib/image-variants"
 import Link from "next/link"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -158,7 +159,7 @@ export function NotificationsPopover() {
                   >
                     <div className="flex gap-3">
                       <Avatar className="h-8 w-8">
-                        <AvatarImage src={notification.sender?.avatar_url || ""} />
+                        <AvatarImage src={notification.sender?.avatar_url || ""} srcSet={avatarSrcSet(notification.sender?.avatar_url)} />
                         <AvatarFallback>{getAvatarFallback(notification)}</AvatarFallback>
                       </Avatar>
                       <div className="flex-1 min-w-0">
@@ -203,7 +204,7 @@ export function NotificationsPopover() {
                     >
                       <div className="flex gap-3">
                         <Avatar className="h-8 w-8">
-                          <AvatarImage src={notification.sender?.avatar_url || ""} />
+                          <AvatarImage src={notification.sender?.avatar_url || ""} srcSet={avatarSrcSet(notification.sender?.avatar_url)} />
                           <AvatarFallback>{getAvatarFallback(notification)}</AvatarFallback>
                         </Avatar>
                         <div className="flex-1 min-w-0">
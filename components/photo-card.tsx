@@ -1,7 +1,6 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import Image from "next/image"
 import { Card, CardContent, CardFooter } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { getInitialRating, PhotoRating } from "@/components/photo-rating"
@@ -19,6 +18,10 @@ import {
 import { CommentSection } from "@/components/comment-section"
 import Link from "next/link"
 import { getUserRating } from "@/lib/rating-service"
+import { type PhotoAggregate } from "@/lib/rating-aggregation"
+import { type ViewerState } from "@/lib/viewer-state"
+import { avatarSrcSet, type ImageVariant } from "@/lib/image-variants"
+import { ResponsiveImage } from "@/components/responsive-image"
 import { useRouter } from "next/navigation"
 import { useToast } from "@/components/ui/use-toast"
 import {
@@ -36,6 +39,9 @@ import {
 interface PhotoCardProps {
   id: string
   imageUrl: string
+  imageVariants?: ImageVariant[] | null
+  blurDataUrl?: string | null
+  dominantColor?: string | null
   title: string
   description?: string
   rating?: number
@@ -46,13 +52,21 @@ interface PhotoCardProps {
   userAvatar?: string
   userId?: string
   createdAt?: string
+  tags?: string[] | null
   showDeleteButton?: boolean
   onDelete?: () => void
+  // Viewer's liked/rated/following flags, batch-loaded by the parent (see
+  // useViewerState). null while the batch is loading; leave undefined to have
+  // the card look them up itself.
+  viewerState?: ViewerState | null
 }
 
 export function PhotoCard({
   id,
   imageUrl,
+  imageVariants,
+  blurDataUrl,
+  dominantColor,
   title,
   description,
   rating,
@@ -63,13 +77,16 @@ export function PhotoCard({
   userAvatar,
   userId,
   createdAt,
+  tags,
   showDeleteButton,
-  onDelete
+  onDelete,
+  viewerState
 }: PhotoCardProps) {
   const router = useRouter()
   const { toast } = useToast()
   const { user } = useAuth()
   const [currentRating, setCurrentRating] = useState(rating || 0)
+  const [currentVotes, setCurrentVotes] = useState(votesCount)
   const [currentLikes, setCurrentLikes] = useState(likesCount)
   const [isLiked, setIsLiked] = useState(false)
   const [isFollowing, setIsFollowing] = useState(false)
@@ -78,19 +95,29 @@ export function PhotoCard({
   const [commentsOpen, setCommentsOpen] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   
+  const hydrated = viewerState !== undefined
+  
+  // Take the flags from the parent's batch once it arrives
+  useEffect(() => {
+    if (viewerState) {
+      setIsLiked(viewerState.liked)
+      setIsFollowing(viewerState.followingOwner)
+    }
+  }, [viewerState])
+  
   useEffect(() => {
     async function checkLikeStatus() {
-      if (!user) return
+      if (!user || hydrated) return
       const liked = await hasLikedPhoto(user.id, id)
       setIsLiked(liked)
     }
     
     checkLikeStatus()
-  }, [user, id])
+  }, [user, id, hydrated])
   
   useEffect(() => {
     async function checkIsFollowing() {
-      if (user && userId) {
+      if (user && userId && !hydrated) {
         try {
           const following = await checkFollowStatus(user.id, userId);
           setIsFollowing(following);
@@ -101,10 +128,18 @@ export function PhotoCard({
     }
     
     checkIsFollowing()
-  }, [user, userId])
+  }, [user, userId, hydrated])
   
-  const handleRatingChange = (oldRating:number, newRating: number) => {
-    setCurrentRating((currentRating*(votesCount)+ newRating - oldRating)/votesCount)
+  const handleRatingChange = (oldRating: number, newRating: number, aggregate?: PhotoAggregate) => {
+    if (aggregate) {
+      setCurrentRating(aggregate.rating)
+      setCurrentVotes(aggregate.votes_count)
+      return
+    }
+    
+    const newVotes = currentVotes + (oldRating === 0 ? 1 : 0)
+    setCurrentRating((currentRating * currentVotes + newRating - oldRating) / newVotes)
+    setCurrentVotes(newVotes)
   }
   
   const handleLike = async () => {
@@ -207,7 +242,7 @@ export function PhotoCard({
               onClick={(e) => e.stopPropagation()}
             >
               <Avatar className="h-7 w-7 border border-gray-200">
-                <AvatarImage src={userAvatar || ""} alt={username} />
+                <AvatarImage src={userAvatar || ""} srcSet={avatarSrcSet(userAvatar)} alt={username} />
                 <AvatarFallback>{username[0]?.toUpperCase()}</AvatarFallback>
               </Avatar>
               <span className="text-sm font-medium group-hover/user:text-blue-600 transition-colors">
@@ -248,10 +283,12 @@ export function PhotoCard({
           className="relative aspect-square overflow-hidden cursor-pointer group"
           onClick={() => router.push(`/photos/${id}`)}
         >
-          <Image
+          <ResponsiveImage
             src={imageUrl}
+            variants={imageVariants}
+            blurDataUrl={blurDataUrl}
+            dominantColor={dominantColor}
             alt={title}
-            fill
             sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
             className="object-cover transition-transform duration-500 group-hover:scale-105"
           />
@@ -291,7 +328,7 @@ export function PhotoCard({
             <h3 className="font-semibold text-lg truncate leading-tight" title={title}>{title}</h3>
             <div className="flex items-center bg-amber-50 px-2 py-1 rounded-full">
               <span className="font-medium text-amber-700">{currentRating.toFixed(1)}</span>
-              <span className="text-amber-500 ml-1 text-xs">({votesCount || 0})</span>
+              <span className="text-amber-500 ml-1 text-xs">({currentVotes || 0})</span>
             </div>
           </div>
           
@@ -300,12 +337,29 @@ export function PhotoCard({
             <p className="text-sm text-gray-600 line-clamp-2 mb-4 leading-normal">{description}</p>
           )}
           
+          {/* Tags */}
+          {tags && tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-3">
+              {tags.map(tag => (
+                <Link
+                  key={tag}
+                  href={`/tags/${encodeURIComponent(tag)}`}
+                  className="text-xs text-blue-600 hover:underline"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
+          
           {/* Rating Stars */}
           <div className="mt-2 mb-3">
             <PhotoRating 
               photoId={id} 
               initialRating={0} 
               onRatingChange={handleRatingChange} 
+              userRating={hydrated ? viewerState?.rating ?? null : undefined}
             />
           </div>
           
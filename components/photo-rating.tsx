@@ -4,32 +4,42 @@ import { useState, useEffect } from "react"
 import { Star } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { ratePhoto, getUserRating } from "@/lib/rating-service"
+import { type PhotoAggregate } from "@/lib/rating-aggregation"
+import { getUserRatingHistory, type RatingEvent } from "@/lib/rating-history"
 import { useAuth } from "@/lib/auth-context"
 import { useToast } from "@/components/ui/use-toast"
 
 interface PhotoRatingProps {
   photoId: string
   initialRating: number
-  onRatingChange: (oldRating: number, newRating: number) => void
+  onRatingChange: (oldRating: number, newRating: number, aggregate?: PhotoAggregate) => void
+  // Also list the scores this user gave before (one extra request, so detail pages only)
+  showHistory?: boolean
+  // The viewer's rating when the parent already batch-loaded it; null means not rated.
+  // Leave undefined to have the widget fetch it itself.
+  userRating?: number | null
 }
 export function getInitialRating(): number {
   return 0;
 }
 
-export function PhotoRating({ photoId, initialRating, onRatingChange }: PhotoRatingProps) {
+export function PhotoRating({ photoId, initialRating, onRatingChange, showHistory = false, userRating: preloadedRating }: PhotoRatingProps) {
   const { user } = useAuth()
   const { toast } = useToast()
   const [rating, setRating] = useState<number | null>(null)
   const [hoveredRating, setHoveredRating] = useState<number | null>(null)
   const [isRating, setIsRating] = useState(false)
   const [hasRated, setHasRated] = useState(false)
+  const [history, setHistory] = useState<RatingEvent[]>([])
   
   // Load user's existing rating for this photo
   useEffect(() => {
     async function loadUserRating() {
       if (!user) return
       
-      const userRating = await getUserRating(user.id, photoId)
+      const userRating = preloadedRating !== undefined
+        ? preloadedRating
+        : await getUserRating(user.id, photoId)
       if (userRating) {
         setRating(userRating)
         setHasRated(true)
@@ -39,7 +49,19 @@ export function PhotoRating({ photoId, initialRating, onRatingChange }: PhotoRat
     }
     
     loadUserRating()
-  }, [user, photoId, initialRating])
+  }, [user, photoId, initialRating, preloadedRating])
+  
+  // Load the user's earlier scores for this photo
+  useEffect(() => {
+    async function loadHistory() {
+      if (!user || !showHistory) return
+      
+      const events = await getUserRatingHistory(user.id, photoId)
+      setHistory(events)
+    }
+    
+    loadHistory()
+  }, [user, photoId, showHistory, rating])
   
   const handleRating = async (value: number) => {
     if (!user) {
@@ -51,14 +73,14 @@ export function PhotoRating({ photoId, initialRating, onRatingChange }: PhotoRat
     }
     
     setIsRating(true)
-    const { success, error } = await ratePhoto(user.id, photoId, value)
+    const { success, aggregate } = await ratePhoto(user.id, photoId, value)
     setIsRating(false)
     
     if (success) {
       setRating(value)
       setHasRated(true)
       if (onRatingChange) {
-        onRatingChange(rating || 0, value)
+        onRatingChange(hasRated ? rating || 0 : 0, value, aggregate)
       }
       toast({
         title: "Rating submitted",
@@ -101,6 +123,13 @@ export function PhotoRating({ photoId, initialRating, onRatingChange }: PhotoRat
           <span>Rate this photo</span>
         )}
       </div>
+      {showHistory && history.length > 1 && (
+        <div className="text-xs text-gray-500 mt-1">
+          Previously: {history.slice(1).map(event => 
+            event.event_type === 'removed' ? 'removed' : `${event.rating}/10`
+          ).join(' ← ')}
+        </div>
+      )}
     </div>
   )
 } 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import Link from "next/link"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { avatarSrcSet } from "@/lib/image-variants"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { useState } from "react"
@@ -19,6 +20,8 @@ interface ProfileCardProps {
   showFollowButton?: boolean
   initialIsFollowing?: boolean
   onFollowChange?: (following: boolean) => void
+  // Why this profile is being shown, e.g. on suggestions
+  reason?: string
 }
 
 export function ProfileCard({
@@ -31,7 +34,8 @@ export function ProfileCard({
   followingCount,
   showFollowButton = true,
   initialIsFollowing = false,
-  onFollowChange
+  onFollowChange,
+  reason
 }: ProfileCardProps) {
   const { user } = useAuth()
   const [isFollowing, setIsFollowing] = useState(initialIsFollowing)
@@ -123,7 +127,7 @@ export function ProfileCard({
         <div className="flex items-start gap-3">
           <Link href={`/users/${displayUsername}`}>
             <Avatar className="h-16 w-16">
-              <AvatarImage src={displayAvatarUrl || ""} />
+              <AvatarImage src={displayAvatarUrl || ""} srcSet={avatarSrcSet(displayAvatarUrl)} />
               <AvatarFallback>{displayUsername?.[0] || "U"}</AvatarFallback>
             </Avatar>
           </Link>
@@ -137,6 +141,10 @@ export function ProfileCard({
               <p className="text-sm text-gray-500 mb-1">{displayFullName}</p>
             )}
             
+            {reason && (
+              <p className="text-xs text-blue-600 mb-1">{reason}</p>
+            )}
+            
             {displayBio && (
               <p className="text-sm line-clamp-2 mb-2">{displayBio}</p>
             )}
@@ -0,0 +1,43 @@
+"use client"
+
+import { Progress } from "@/components/ui/progress"
+import { getDimensionLabel, type RatingDimension } from "@/lib/rating-dimensions"
+
+interface RatingBreakdownProps {
+  dimensions: RatingDimension[]
+  averages: Partial<Record<RatingDimension, number>>
+  counts?: Partial<Record<RatingDimension, number>>
+}
+
+export function RatingBreakdown({ dimensions, averages, counts }: RatingBreakdownProps) {
+  const rated = dimensions.filter(dimension => averages[dimension] !== undefined)
+
+  if (rated.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">No detailed ratings yet</p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {rated.map((dimension) => {
+        const average = averages[dimension] || 0
+
+        return (
+          <div key={dimension}>
+            <div className="flex justify-between mb-1">
+              <span className="text-sm font-medium">{getDimensionLabel(dimension)}</span>
+              <span className="text-sm text-gray-700">
+                {average.toFixed(1)}
+                {counts?.[dimension] !== undefined && (
+                  <span className="text-xs text-gray-500 ml-1">({counts[dimension]})</span>
+                )}
+              </span>
+            </div>
+            <Progress value={average * 10} className="h-2" />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
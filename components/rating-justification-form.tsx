@@ -0,0 +1,137 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { useAuth } from "@/lib/auth-context"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  FEEDBACK_CHIPS,
+  MAX_FEEDBACK_LENGTH,
+  getRatingJustification,
+  saveRatingJustification,
+  type FeedbackChip
+} from "@/lib/rating-feedback"
+
+interface RatingJustificationFormProps {
+  photoId: string
+}
+
+export function RatingJustificationForm({ photoId }: RatingJustificationFormProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [rating, setRating] = useState<number | null>(null)
+  const [strengths, setStrengths] = useState<FeedbackChip[]>([])
+  const [weaknesses, setWeaknesses] = useState<FeedbackChip[]>([])
+  const [feedback, setFeedback] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Load the user's rating and any justification already attached to it
+  useEffect(() => {
+    async function loadJustification() {
+      if (!user) return
+
+      const existing = await getRatingJustification(user.id, photoId)
+      if (existing) {
+        setRating(existing.rating)
+        setStrengths(existing.strengths)
+        setWeaknesses(existing.weaknesses)
+        setFeedback(existing.feedback || "")
+      }
+    }
+
+    loadJustification()
+  }, [user, photoId])
+
+  // Only users who rated can explain their rating
+  if (!user || rating === null) {
+    return null
+  }
+
+  // A chip can be a strength or a weakness, never both
+  const toggleChip = (chip: FeedbackChip, kind: 'strength' | 'weakness') => {
+    const [selected, setSelected, setOther] = kind === 'strength'
+      ? [strengths, setStrengths, setWeaknesses]
+      : [weaknesses, setWeaknesses, setStrengths]
+
+    if (selected.includes(chip)) {
+      setSelected(selected.filter(c => c !== chip))
+    } else {
+      setSelected([...selected, chip])
+      setOther(prev => prev.filter(c => c !== chip))
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    const { success, error } = await saveRatingJustification(user.id, photoId, {
+      strengths,
+      weaknesses,
+      feedback
+    })
+    setIsSaving(false)
+
+    toast(success ? {
+      title: "Feedback saved",
+      description: "The owner will see it in their stats."
+    } : {
+      title: "Error",
+      description: error?.message || "Failed to save feedback"
+    })
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <p className="text-sm font-medium">Why did you give this a {rating}/10?</p>
+
+      <div>
+        <p className="text-xs text-gray-500 mb-1">Strengths</p>
+        <div className="flex flex-wrap gap-1">
+          {FEEDBACK_CHIPS.map(chip => (
+            <Badge
+              key={chip}
+              variant={strengths.includes(chip) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => toggleChip(chip, 'strength')}
+            >
+              {chip}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-500 mb-1">Could improve</p>
+        <div className="flex flex-wrap gap-1">
+          {FEEDBACK_CHIPS.map(chip => (
+            <Badge
+              key={chip}
+              variant={weaknesses.includes(chip) ? "destructive" : "outline"}
+              className="cursor-pointer"
+              onClick={() => toggleChip(chip, 'weakness')}
+            >
+              {chip}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <Textarea
+        placeholder="Anything else? (optional)"
+        value={feedback}
+        maxLength={MAX_FEEDBACK_LENGTH}
+        onChange={(e) => setFeedback(e.target.value)}
+        className="min-h-[60px] resize-none"
+      />
+
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-gray-400">{feedback.length}/{MAX_FEEDBACK_LENGTH}</span>
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Feedback"}
+        </Button>
+      </div>
+    </div>
+  )
+}
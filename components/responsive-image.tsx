@@ -0,0 +1,72 @@
+import Image from "next/image"
+import { buildSrcSet, type ImageVariant } from "@/lib/image-variants"
+
+interface ResponsiveImageProps {
+  src: string
+  variants?: ImageVariant[] | null
+  alt: string
+  sizes: string
+  className?: string
+  priority?: boolean
+  // Shown until the image arrives (see createPlaceholder)
+  blurDataUrl?: string | null
+  dominantColor?: string | null
+}
+
+// Fills its (relatively positioned) parent like `<Image fill>`, letting the
+// browser choose among the upload's variants by format and width. Photos
+// uploaded before variants existed fall back to the original.
+export function ResponsiveImage({
+  src,
+  variants,
+  alt,
+  sizes,
+  className = "",
+  priority = false,
+  blurDataUrl,
+  dominantColor
+}: ResponsiveImageProps) {
+  // Painted behind the image, so it disappears once the real pixels load
+  const placeholderStyle = {
+    backgroundColor: dominantColor || undefined,
+    backgroundImage: blurDataUrl ? `url(${blurDataUrl})` : undefined,
+    backgroundSize: "cover",
+    backgroundPosition: "center"
+  }
+
+  if (!variants || variants.length === 0) {
+    return (
+      <Image
+        src={src}
+        alt={alt}
+        fill
+        sizes={sizes}
+        className={className}
+        priority={priority}
+        style={placeholderStyle}
+      />
+    )
+  }
+
+  const avif = buildSrcSet(variants, "avif")
+  const webp = buildSrcSet(variants, "webp")
+  const jpeg = buildSrcSet(variants, "jpeg")
+
+  return (
+    <picture>
+      {avif && <source type="image/avif" srcSet={avif} sizes={sizes} />}
+      {webp && <source type="image/webp" srcSet={webp} sizes={sizes} />}
+      {/* next/image can't take a srcset, and the variants are already sized */}
+      <img
+        src={src}
+        srcSet={jpeg || undefined}
+        sizes={sizes}
+        alt={alt}
+        loading={priority ? "eager" : "lazy"}
+        decoding="async"
+        className={`absolute inset-0 h-full w-full ${className}`}
+        style={placeholderStyle}
+      />
+    </picture>
+  )
+}
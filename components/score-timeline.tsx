@@ -0,0 +1,60 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { format } from "date-fns"
+import { getPhotoScoreTimeline, type ScoreTimelinePoint } from "@/lib/rating-history"
+
+interface ScoreTimelineProps {
+  photoId: string
+  // Bump to reload after the viewer rates
+  refreshKey?: number
+}
+
+// Show at most this many bars; older points are sampled down
+const MAX_POINTS = 30
+
+export function ScoreTimeline({ photoId, refreshKey }: ScoreTimelineProps) {
+  const [points, setPoints] = useState<ScoreTimelinePoint[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function loadTimeline() {
+      setLoading(true)
+      const timeline = await getPhotoScoreTimeline(photoId)
+      setPoints(timeline)
+      setLoading(false)
+    }
+
+    loadTimeline()
+  }, [photoId, refreshKey])
+
+  if (loading) {
+    return <div className="h-24 bg-gray-100 animate-pulse rounded" />
+  }
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">No rating history yet</p>
+  }
+
+  const step = Math.ceil(points.length / MAX_POINTS)
+  const sampled = points.filter((_, i) => i % step === 0 || i === points.length - 1)
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-24">
+        {sampled.map((point, i) => (
+          <div
+            key={`${point.at}-${i}`}
+            className="flex-1 bg-amber-400 rounded-t"
+            style={{ height: `${point.rating * 10}%` }}
+            title={`${format(new Date(point.at), 'MMM d, yyyy')}: ${point.rating.toFixed(1)} (${point.votes_count} votes)`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{format(new Date(sampled[0].at), 'MMM d')}</span>
+        <span>{format(new Date(sampled[sampled.length - 1].at), 'MMM d')}</span>
+      </div>
+    </div>
+  )
+}
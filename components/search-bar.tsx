@@ -3,10 +3,13 @@
 import { useState, useEffect, useRef } from "react"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { avatarSrcSet } from "@/lib/image-variants"
 import { useRouter } from "next/navigation"
 import { searchProfiles, type Profile } from "@/lib/profile-service"
+import { searchPhotos, type Photo } from "@/lib/photo-service"
 import { Loader2, Search, X } from "lucide-react"
 import Link from "next/link"
+import { ResponsiveImage } from "@/components/responsive-image"
 import { Button } from "@/components/ui/button"
 
 interface SearchBarProps {
@@ -17,13 +20,14 @@ interface SearchBarProps {
 }
 
 export function SearchBar({ 
-  placeholder = "Search users...",
+  placeholder = "Search users and photos...",
   className = "",
   onSelect,
   autoFocus = false
 }: SearchBarProps) {
   const [query, setQuery] = useState("")
   const [results, setResults] = useState<Profile[]>([])
+  const [photoResults, setPhotoResults] = useState<Photo[]>([])
   const [loading, setLoading] = useState(false)
   const [showResults, setShowResults] = useState(false)
   const resultsRef = useRef<HTMLDivElement>(null)
@@ -35,12 +39,17 @@ export function SearchBar({
     const timerId = setTimeout(async () => {
       if (query.trim().length >= 2) {
         setLoading(true)
-        const profiles = await searchProfiles(query)
-        setResults(profiles)
+        const [profiles, photos] = await Promise.all([
+          searchProfiles(query, { limit: 8 }),
+          searchPhotos({ query, limit: 4 })
+        ])
+        setResults(profiles.items)
+        setPhotoResults(photos)
         setLoading(false)
         setShowResults(true)
       } else {
         setResults([])
+        setPhotoResults([])
         setShowResults(false)
       }
     }, 300)
@@ -92,6 +101,7 @@ export function SearchBar({
             onClick={() => {
               setQuery("")
               setResults([])
+              setPhotoResults([])
               setShowResults(false)
               inputRef.current?.focus()
             }}
@@ -110,12 +120,42 @@ export function SearchBar({
             <div className="flex justify-center items-center py-4">
               <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
             </div>
-          ) : results.length === 0 ? (
+          ) : results.length === 0 && photoResults.length === 0 ? (
             <div className="py-3 px-4 text-sm text-gray-500">
-              No users found
+              No users or photos found
             </div>
           ) : (
             <>
+              {photoResults.length > 0 && (
+                <p className="px-3 pt-2 pb-1 text-xs font-medium uppercase text-gray-400">Photos</p>
+              )}
+              {photoResults.map((photo) => (
+                <div 
+                  key={photo.id}
+                  className="py-2 px-3 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+                  onClick={() => {
+                    router.push(`/photos/${photo.id}`)
+                    setShowResults(false)
+                    setQuery("")
+                  }}
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="relative h-8 w-8 flex-shrink-0 overflow-hidden rounded">
+                      <ResponsiveImage src={photo.image_url} variants={photo.image_variants} alt={photo.title} sizes="32px" className="object-cover" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm truncate">{photo.title}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {photo.user?.username ? `by ${photo.user.username} · ` : ""}{(photo.rating || 0).toFixed(1)}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              
+              {results.length > 0 && photoResults.length > 0 && (
+                <p className="px-3 pt-2 pb-1 text-xs font-medium uppercase text-gray-400">Users</p>
+              )}
               {results.map((profile) => (
                 <div 
                   key={profile.id}
@@ -132,7 +172,7 @@ export function SearchBar({
                 >
                   <div className="flex items-center gap-3">
                     <Avatar className="h-8 w-8">
-                      <AvatarImage src={profile.avatar_url || ""} />
+                      <AvatarImage src={profile.avatar_url || ""} srcSet={avatarSrcSet(profile.avatar_url)} />
                       <AvatarFallback>{profile.username?.[0] || "U"}</AvatarFallback>
                     </Avatar>
                     <div className="flex-1 min-w-0">
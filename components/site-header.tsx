@@ -4,6 +4,7 @@ import { useAuth } from "@/lib/auth-context"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { avatarSrcSet } from "@/lib/image-variants"
 import { useEffect, useState } from "react"
 import { getProfile, type Profile } from "@/lib/profile-service"
 import { SearchBar } from "@/components/search-bar"
@@ -113,7 +114,7 @@ export function SiteHeader() {
                 <>
                   <Link href="/profile" className="flex items-center space-x-2">
                     <Avatar className="h-8 w-8">
-                      <AvatarImage src={profile?.avatar_url || ""} alt={profile?.username || user.email || ""} />
+                      <AvatarImage src={profile?.avatar_url || ""} srcSet={avatarSrcSet(profile?.avatar_url)} alt={profile?.username || user.email || ""} />
                       <AvatarFallback>{profile?.full_name?.[0] || user.email?.[0] || "U"}</AvatarFallback>
                     </Avatar>
                     <span className="text-sm font-medium hidden md:inline-block">
@@ -0,0 +1,110 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { X } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { getPopularTags, normalizeTag, MAX_TAGS } from "@/lib/photo-tags"
+
+interface TagInputProps {
+  id?: string
+  value: string[]
+  onChange: (tags: string[]) => void
+}
+
+// Free-form tag entry with chips and autocomplete from tags already in use
+export function TagInput({ id, value, onChange }: TagInputProps) {
+  const [draft, setDraft] = useState("")
+  const [popularTags, setPopularTags] = useState<string[]>([])
+  const [isFocused, setIsFocused] = useState(false)
+
+  useEffect(() => {
+    async function loadPopularTags() {
+      const tags = await getPopularTags()
+      setPopularTags(tags)
+    }
+
+    loadPopularTags()
+  }, [])
+
+  const prefix = normalizeTag(draft)
+  const suggestions = popularTags
+    .filter(tag => !value.includes(tag) && tag.startsWith(prefix))
+    .slice(0, 6)
+  const isFull = value.length >= MAX_TAGS
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw)
+    if (tag && !value.includes(tag) && !isFull) {
+      onChange([...value, tag])
+    }
+    setDraft("")
+  }
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      // Don't submit the surrounding form
+      e.preventDefault()
+      addTag(draft)
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value[value.length - 1])
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              #{tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="rounded-full hover:text-red-500"
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={isFull ? `Up to ${MAX_TAGS} tags` : "e.g. cutting, back, legs"}
+          disabled={isFull}
+          autoComplete="off"
+        />
+
+        {isFocused && !isFull && suggestions.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full rounded-md border bg-white dark:bg-gray-900 shadow-md">
+            {suggestions.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                className="block w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                // Keep focus in the input so the list stays open for the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
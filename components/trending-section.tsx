@@ -0,0 +1,69 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { Flame } from "lucide-react"
+import { getAllPhotos, type Photo } from "@/lib/photo-service"
+
+// Window the landing page section looks back over
+const TRENDING_DAYS = 7
+
+// Top trending photos from the past week, for the landing page
+export function TrendingSection() {
+  const [photos, setPhotos] = useState<Photo[] | null>(null)
+
+  useEffect(() => {
+    async function loadTrending() {
+      const since = new Date(Date.now() - TRENDING_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      const page = await getAllPhotos({ orderBy: "trending", createdAfter: since, limit: 8 })
+      setPhotos(page.items)
+    }
+
+    loadTrending()
+  }, [])
+
+  // Nothing to show yet, so don't take up space on the page
+  if (photos !== null && photos.length === 0) {
+    return null
+  }
+
+  return (
+    <section className="w-full py-12 md:py-16">
+      <div className="container px-4 md:px-6">
+        <div className="flex items-center gap-2 mb-6">
+          <Flame className="h-6 w-6 text-orange-500" />
+          <h2 className="text-2xl font-bold tracking-tighter sm:text-3xl">Trending this week</h2>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {photos === null
+            ? [...Array(4)].map((_, i) => (
+                <div key={i} className="aspect-square rounded-lg bg-gray-200 animate-pulse" />
+              ))
+            : photos.map(photo => (
+                <Link
+                  key={photo.id}
+                  href={`/photos/${photo.id}`}
+                  className="group relative aspect-square overflow-hidden rounded-lg"
+                >
+                  <Image
+                    src={photo.image_url}
+                    alt={photo.title}
+                    fill
+                    sizes="(max-width: 768px) 50vw, 25vw"
+                    className="object-cover transition-transform duration-500 group-hover:scale-105"
+                  />
+                  <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent p-3">
+                    <p className="text-sm font-medium text-white truncate">{photo.title}</p>
+                    <p className="text-xs text-white/80">
+                      {(photo.rating || 0).toFixed(1)} · {photo.votes_count || 0} votes
+                    </p>
+                  </div>
+                </Link>
+              ))}
+        </div>
+      </div>
+    </section>
+  )
+}
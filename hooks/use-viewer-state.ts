@@ -0,0 +1,61 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useAuth } from "@/lib/auth-context"
+import { getViewerState, type ViewerState } from "@/lib/viewer-state"
+import { type Photo } from "@/lib/photo-service"
+
+// Batch-load the viewer's liked/rated/following flags for a list of photos.
+// Only photos not requested yet are fetched, so appending a page costs one batch.
+export function useViewerState(photos: Pick<Photo, "id" | "user_id">[]) {
+  const { user } = useAuth()
+  const [states, setStates] = useState<Record<string, ViewerState>>({})
+  const requested = useRef<{ userId?: string, ids: Set<string> }>({ ids: new Set() })
+
+  // `photos` is a new array on every render, so the effect keys on the IDs and
+  // reads the list itself through a ref
+  const photoKey = photos.map(photo => photo.id).join(",")
+  const latestPhotos = useRef(photos)
+  latestPhotos.current = photos
+
+  useEffect(() => {
+    async function loadStates() {
+      if (!user) {
+        requested.current = { ids: new Set() }
+        setStates({})
+        return
+      }
+
+      // Start over when a different user signs in
+      if (requested.current.userId !== user.id) {
+        requested.current = { userId: user.id, ids: new Set() }
+        setStates({})
+      }
+
+      const missing = latestPhotos.current.filter(photo => !requested.current.ids.has(photo.id))
+      if (missing.length === 0) return
+
+      // Marked up front so a list change mid-request doesn't fetch them twice
+      missing.forEach(photo => requested.current.ids.add(photo.id))
+
+      const loaded = await getViewerState(user.id, missing)
+
+      // A failed load comes back without the photos; forget them so they're
+      // asked for again the next time the list changes, instead of never
+      const failed = missing.filter(photo => !loaded[photo.id])
+      failed.forEach(photo => requested.current.ids.delete(photo.id))
+      if (failed.length === missing.length) return
+
+      const entries = missing.reduce((map, photo) => {
+        if (loaded[photo.id]) map[photo.id] = loaded[photo.id]
+        return map
+      }, {} as Record<string, ViewerState>)
+
+      setStates(prev => ({ ...prev, ...entries }))
+    }
+
+    loadStates()
+  }, [user, photoKey])
+
+  return states
+}
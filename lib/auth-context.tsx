@@ -54,9 +54,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     if (loading) return
     
-    const authRequiredPages = ['/upload', '/profile', '/users/']
+    const authRequiredPages = ['/upload', '/profile', '/users/', '/matchup']
     const authPages = ['/login', '/signup']
-    const publicPages = ['/', '/gallery', '/discover']
+    const publicPages = ['/', '/gallery', '/discover', '/tags/', '/leaderboard']
     
     if (!user && authRequiredPages.some(page => pathname.startsWith(page))) {
       // Redirect to login if trying to access auth-required pages
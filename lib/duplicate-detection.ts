@@ -0,0 +1,206 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { isModerator } from './request-auth'
+import { getAuthHeaders } from './supabase'
+
+export type PhotoFlagReason = 'near_duplicate'
+
+export type PhotoFlagStatus = 'pending' | 'cleared' | 'confirmed'
+
+// A new upload that looks like another user's photo, awaiting moderator review.
+// Keyed by image URL: the upload route runs before the photo row exists.
+export type PhotoFlag = {
+  id: string
+  image_url: string
+  uploader_id: string
+  original_photo_id: string
+  original_uploader_id: string
+  reason: PhotoFlagReason
+  // Bits that differ between the two hashes; 0 means visually identical
+  distance: number
+  details?: string | null
+  status: PhotoFlagStatus
+  created_at: string
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+}
+
+export type SimilarPhoto = {
+  photoId: string
+  userId: string
+  distance: number
+}
+
+// Hashes at most this many bits apart are treated as the same photo
+export const NEAR_DUPLICATE_DISTANCE = 6
+
+// The hash is split into this many bands for lookup. Two hashes within
+// NEAR_DUPLICATE_DISTANCE bits of each other always share at least one band
+// exactly, so an overlap query on the bands finds every candidate.
+const HASH_BANDS = 8
+
+// Position-tagged slices of the hash, e.g. "0:3f", "1:a0", ...
+export function hashBands(hash: string): string[] {
+  const width = hash.length / HASH_BANDS
+  return Array.from({ length: HASH_BANDS }, (_, i) => `${i}:${hash.slice(i * width, (i + 1) * width)}`)
+}
+
+// Photos whose image hash is within NEAR_DUPLICATE_DISTANCE of `hash`, closest
+// first. The distance is computed in the database (find_similar_photos), and
+// hashes whose photo was never created or has since been deleted are skipped.
+export async function findSimilarPhotos(client: SupabaseClient, hash: string): Promise<SimilarPhoto[]> {
+  const { data, error } = await client.rpc('find_similar_photos', {
+    p_hash: hash,
+    p_bands: hashBands(hash),
+    p_max_distance: NEAR_DUPLICATE_DISTANCE
+  })
+
+  if (error) throw error
+
+  return ((data || []) as { photo_id: string, user_id: string, distance: number }[]).map(match => ({
+    photoId: match.photo_id,
+    userId: match.user_id,
+    distance: match.distance
+  }))
+}
+
+// Remember an uploaded image's hash so later uploads can be compared against it
+export async function recordImageHash(
+  client: SupabaseClient,
+  image: { imageUrl: string, userId: string, hash: string }
+): Promise<void> {
+  const { error } = await client
+    .from('image_hashes')
+    .insert({
+      id: crypto.randomUUID(),
+      image_url: image.imageUrl,
+      user_id: image.userId,
+      hash: image.hash,
+      bands: hashBands(image.hash),
+      created_at: new Date().toISOString()
+    })
+
+  if (error) throw error
+}
+
+// Open a moderation flag for an upload that matches someone else's photo
+export async function flagNearDuplicate(
+  client: SupabaseClient,
+  upload: { imageUrl: string, uploaderId: string },
+  original: SimilarPhoto
+): Promise<void> {
+  const { error } = await client
+    .from('photo_flags')
+    .insert({
+      id: crypto.randomUUID(),
+      image_url: upload.imageUrl,
+      uploader_id: upload.uploaderId,
+      original_photo_id: original.photoId,
+      original_uploader_id: original.userId,
+      reason: 'near_duplicate',
+      distance: original.distance,
+      details: `Looks like /photos/${original.photoId} (${original.distance} of 64 bits differ)`,
+      status: 'pending',
+      created_at: new Date().toISOString()
+    })
+
+  if (error) throw error
+}
+
+// Get photo flags awaiting moderator review, oldest first
+export async function getPendingPhotoFlags(client: SupabaseClient, limit: number = 50): Promise<PhotoFlag[]> {
+  try {
+    const { data, error } = await client
+      .from('photo_flags')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching pending photo flags:', error)
+    return []
+  }
+}
+
+// Record a moderator's decision on a photo flag
+export async function reviewPhotoFlag(
+  client: SupabaseClient,
+  flagId: string,
+  moderatorId: string,
+  decision: Exclude<PhotoFlagStatus, 'pending'>
+): Promise<{ success: boolean, error?: Error }> {
+  try {
+    if (!await isModerator(client, moderatorId)) {
+      return { success: false, error: new Error('Only moderators can review flags') }
+    }
+
+    const { error } = await client
+      .from('photo_flags')
+      .update({
+        status: decision,
+        reviewed_by: moderatorId,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', flagId)
+
+    if (error) throw error
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error reviewing photo flag:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error))
+    }
+  }
+}
+
+// Get the photo flag review queue as the signed-in moderator. Throws when the
+// request is refused, so the page can tell "nothing to review" from "not allowed".
+export async function fetchPhotoFlagQueue(): Promise<PhotoFlag[]> {
+  const response = await fetch('/api/moderation/photo-flags', {
+    headers: await getAuthHeaders()
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || 'Failed to fetch photo flags')
+  }
+
+  const { flags } = await response.json()
+
+  return flags || []
+}
+
+// Clear or confirm a photo flag as the signed-in moderator
+export async function submitPhotoFlagReview(
+  flagId: string,
+  decision: Exclude<PhotoFlagStatus, 'pending'>
+): Promise<{ success: boolean, error?: Error }> {
+  try {
+    const response = await fetch('/api/moderation/photo-flags', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...await getAuthHeaders()
+      },
+      body: JSON.stringify({ flagId, decision })
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to review photo flag')
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error submitting photo flag review:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error))
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { supabase } from './supabase'
+import { type Photo } from './photo-service'
+
+// What we know about the viewer when ranking. Everything is optional so
+// signed-out visitors still get a recency/quality/engagement ranking.
+export type ForYouContext = {
+  // Accounts the viewer follows directly
+  followedIds: Set<string>
+  // Accounts followed by someone the viewer follows
+  secondDegreeIds: Set<string>
+  // Viewer's mean rating per uploader, for uploaders they have rated
+  uploaderAffinity: Map<string, number>
+}
+
+export const EMPTY_FOR_YOU_CONTEXT: ForYouContext = {
+  followedIds: new Set(),
+  secondDegreeIds: new Set(),
+  uploaderAffinity: new Map()
+}
+
+export type ForYouWeights = {
+  recency: number
+  quality: number
+  engagement: number
+  proximity: number
+  affinity: number
+}
+
+export const DEFAULT_FOR_YOU_WEIGHTS: ForYouWeights = {
+  recency: 0.3,
+  quality: 0.3,
+  engagement: 0.15,
+  proximity: 0.15,
+  affinity: 0.1
+}
+
+// A photo loses half its recency boost every two days
+export const RECENCY_HALF_LIFE_HOURS = 48
+
+// Likes plus comments at which the engagement signal saturates
+const ENGAGEMENT_SATURATION = 100
+
+type RankablePhoto = Pick<
+  Photo,
+  'id' | 'user_id' | 'created_at' | 'rating' | 'weighted_rating' | 'likes_count' | 'comments_count'
+>
+
+export type ForYouSignals = Record<keyof ForYouWeights, number>
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value))
+}
+
+// Each signal normalized to 0..1 so the weights are comparable
+export function forYouSignals(photo: RankablePhoto, context: ForYouContext, now: number): ForYouSignals {
+  const ageHours = Math.max(0, (now - new Date(photo.created_at).getTime()) / 3_600_000)
+  const quality = photo.weighted_rating ?? photo.rating ?? 0
+  // Comments take more effort than likes, so they count double
+  const interactions = (photo.likes_count || 0) + 2 * (photo.comments_count || 0)
+
+  const proximity = context.followedIds.has(photo.user_id)
+    ? 1
+    : context.secondDegreeIds.has(photo.user_id) ? 0.5 : 0
+
+  // Only uploaders the viewer rated above the scale midpoint earn a boost
+  const affinity = context.uploaderAffinity.get(photo.user_id)
+
+  return {
+    recency: Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS),
+    quality: clamp01(quality / 10),
+    engagement: clamp01(Math.log1p(interactions) / Math.log1p(ENGAGEMENT_SATURATION)),
+    proximity,
+    affinity: affinity === undefined ? 0 : clamp01((affinity - 5.5) / 4.5)
+  }
+}
+
+// Weighted blend of the signals
+export function scoreForYou(
+  photo: RankablePhoto,
+  context: ForYouContext,
+  now: number,
+  weights: ForYouWeights = DEFAULT_FOR_YOU_WEIGHTS
+): number {
+  const signals = forYouSignals(photo, context, now)
+
+  return (Object.keys(weights) as (keyof ForYouWeights)[])
+    .reduce((score, key) => score + weights[key] * signals[key], 0)
+}
+
+// Photos ordered best first, ties broken by id so the order is total
+export function rankForYou<T extends RankablePhoto>(
+  photos: T[],
+  context: ForYouContext,
+  now: number,
+  weights: ForYouWeights = DEFAULT_FOR_YOU_WEIGHTS
+): { photo: T, score: number }[] {
+  return photos
+    .map(photo => ({ photo, score: scoreForYou(photo, context, now, weights) }))
+    .sort((a, b) => b.score - a.score || (a.photo.id < b.photo.id ? 1 : a.photo.id > b.photo.id ? -1 : 0))
+}
+
+// Load the follow graph and rating history the ranking needs for a viewer
+export async function loadForYouContext(viewerId: string): Promise<ForYouContext> {
+  try {
+    const [{ data: follows, error: followsError }, { data: ratings, error: ratingsError }] = await Promise.all([
+      supabase
+        .from('followers')
+        .select('followed_id')
+        .eq('follower_id', viewerId),
+      supabase
+        .from('ratings')
+        .select('rating, photo:photo_id ( user_id )')
+        .eq('user_id', viewerId)
+    ])
+
+    if (followsError) throw followsError
+    if (ratingsError) throw ratingsError
+
+    const followedIds = new Set((follows || []).map(row => row.followed_id as string))
+
+    const secondDegreeIds = new Set<string>()
+    if (followedIds.size > 0) {
+      const { data, error } = await supabase
+        .from('followers')
+        .select('followed_id')
+        .in('follower_id', Array.from(followedIds))
+
+      if (error) throw error
+
+      for (const row of data || []) {
+        if (row.followed_id !== viewerId && !followedIds.has(row.followed_id)) {
+          secondDegreeIds.add(row.followed_id)
+        }
+      }
+    }
+
+    const totals = new Map<string, { sum: number, count: number }>()
+    for (const row of ratings || []) {
+      const photo = row.photo as unknown as { user_id: string } | null
+      if (!photo) continue
+
+      const total = totals.get(photo.user_id) || { sum: 0, count: 0 }
+      total.sum += row.rating
+      total.count++
+      totals.set(photo.user_id, total)
+    }
+
+    const uploaderAffinity = new Map<string, number>()
+    totals.forEach((total, uploaderId) => {
+      uploaderAffinity.set(uploaderId, total.sum / total.count)
+    })
+
+    return { followedIds, secondDegreeIds, uploaderAffinity }
+  } catch (error) {
+    console.error('Error loading For You context:', error)
+    return EMPTY_FOR_YOU_CONTEXT
+  }
+}
@@ -0,0 +1,197 @@
+import sharp from 'sharp'
+import {
+  MAX_INPUT_DIMENSION,
+  MAX_INPUT_PIXELS,
+  MIN_INPUT_DIMENSION,
+  imageValidationError,
+  type ImageValidationError
+} from './image-validation'
+import { CONTENT_TYPES, EXTENSIONS, PHOTO_VARIANT_FORMATS, variantWidths, type ImageFormat } from './image-variants'
+
+export type SniffedImageType = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif'
+
+export type ProcessedImage = {
+  buffer: Buffer
+  contentType: string
+  extension: string
+  width: number
+  height: number
+}
+
+export type EncodedVariant = ProcessedImage & { format: ImageFormat }
+
+export type ImagePlaceholder = {
+  // Tiny blurred preview, inlined as a data URL
+  blurDataUrl: string
+  // Hex color of the dominant region, for the box before even the preview shows
+  dominantColor: string
+}
+
+// Every upload is stored as a JPEG of at most this size
+const DEFAULT_MAX_OUTPUT_DIMENSION = 2560
+const OUTPUT_QUALITY = 85
+
+// Lower effort keeps AVIF encoding to about a second per variant
+const AVIF_EFFORT = 2
+
+// Width of the inlined preview; a few hundred bytes once encoded
+const PLACEHOLDER_WIDTH = 16
+
+function startsWith(bytes: Uint8Array, signature: number[], offset: number = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+function ascii(value: string): number[] {
+  return Array.from(value, char => char.charCodeAt(0))
+}
+
+// Identify the format from the file's magic bytes, ignoring the name and the
+// content type the browser claimed
+export function sniffImageType(bytes: Uint8Array): SniffedImageType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg'
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png'
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'gif'
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'webp'
+  if (startsWith(bytes, ascii('ftyp'), 4) && (startsWith(bytes, ascii('avif'), 8) || startsWith(bytes, ascii('avis'), 8))) {
+    return 'avif'
+  }
+  return null
+}
+
+// Validate an uploaded image and re-encode it. Re-encoding drops every byte of
+// the original container, including EXIF and GPS location; orientation is
+// applied to the pixels first so photos don't end up sideways.
+export async function processImage(
+  bytes: Uint8Array,
+  options: { maxDimension?: number } = {}
+): Promise<{ success: true, image: ProcessedImage } | { success: false, error: ImageValidationError }> {
+  const maxDimension = options.maxDimension || DEFAULT_MAX_OUTPUT_DIMENSION
+
+  if (bytes.length === 0) {
+    return { success: false, error: imageValidationError('missing_file') }
+  }
+
+  if (!sniffImageType(bytes)) {
+    return { success: false, error: imageValidationError('unsupported_type') }
+  }
+
+  let metadata: sharp.Metadata
+  try {
+    // Reads the header only, so oversized images are rejected before decoding
+    metadata = await sharp(bytes, { limitInputPixels: false }).metadata()
+  } catch {
+    return { success: false, error: imageValidationError('corrupt') }
+  }
+
+  const { width = 0, height = 0 } = metadata
+
+  if (width > MAX_INPUT_DIMENSION || height > MAX_INPUT_DIMENSION) {
+    return { success: false, error: imageValidationError('dimensions_too_large') }
+  }
+
+  if (width * height > MAX_INPUT_PIXELS) {
+    return { success: false, error: imageValidationError('too_many_pixels') }
+  }
+
+  if (width < MIN_INPUT_DIMENSION || height < MIN_INPUT_DIMENSION) {
+    return { success: false, error: imageValidationError('too_small') }
+  }
+
+  try {
+    const { data, info } = await sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS, failOn: 'error' })
+      .rotate()
+      .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: OUTPUT_QUALITY, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true })
+
+    return {
+      success: true,
+      image: {
+        buffer: data,
+        contentType: 'image/jpeg',
+        extension: 'jpg',
+        width: info.width,
+        height: info.height
+      }
+    }
+  } catch {
+    return { success: false, error: imageValidationError('corrupt') }
+  }
+}
+
+// Resize an already processed image to `width` and encode it as `format`
+export async function encodeVariant(source: Buffer, width: number, format: ImageFormat): Promise<EncodedVariant> {
+  let pipeline = sharp(source).resize({ width, withoutEnlargement: true })
+
+  if (format === 'avif') pipeline = pipeline.avif({ quality: 60, effort: AVIF_EFFORT })
+  else if (format === 'webp') pipeline = pipeline.webp({ quality: 80 })
+  else pipeline = pipeline.jpeg({ quality: OUTPUT_QUALITY, mozjpeg: true })
+
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true })
+
+  return {
+    buffer: data,
+    contentType: CONTENT_TYPES[format],
+    extension: EXTENSIONS[format],
+    width: info.width,
+    height: info.height,
+    format
+  }
+}
+
+// Every photo variant (see image-variants) for a processed upload. Encoded one
+// at a time: sharp already uses every core for each encode.
+export async function generatePhotoVariants(image: ProcessedImage): Promise<EncodedVariant[]> {
+  const variants: EncodedVariant[] = []
+
+  for (const width of variantWidths(image.width)) {
+    for (const format of PHOTO_VARIANT_FORMATS) {
+      variants.push(await encodeVariant(image.buffer, width, format))
+    }
+  }
+
+  return variants
+}
+
+// Build the placeholder shown while a photo loads
+export async function createPlaceholder(source: Buffer): Promise<ImagePlaceholder> {
+  const [preview, stats] = await Promise.all([
+    sharp(source).resize({ width: PLACEHOLDER_WIDTH }).webp({ quality: 40 }).toBuffer(),
+    sharp(source).stats()
+  ])
+
+  const { r, g, b } = stats.dominant
+  const hex = [r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')
+
+  return {
+    blurDataUrl: `data:image/webp;base64,${preview.toString('base64')}`,
+    dominantColor: `#${hex}`
+  }
+}
+
+// Side of the grid the difference hash compares; width is one more so each
+// row yields `HASH_GRID` left/right comparisons
+const HASH_GRID = 8
+
+// 64-bit difference hash (dHash) as 16 hex characters. Survives re-encoding,
+// resizing and mild colour edits, so re-uploads of the same photo hash alike.
+export async function computeImageHash(source: Buffer): Promise<string> {
+  const pixels = await sharp(source)
+    .grayscale()
+    .resize(HASH_GRID + 1, HASH_GRID, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  let hex = ''
+  for (let row = 0; row < HASH_GRID; row++) {
+    let byte = 0
+    for (let col = 0; col < HASH_GRID; col++) {
+      const offset = row * (HASH_GRID + 1) + col
+      byte = (byte << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+
+  return hex
+}
@@ -0,0 +1,56 @@
+// Limits and error shapes shared by the upload routes and the upload forms.
+// Kept free of server-only imports so the browser can pre-check files too.
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+
+// Reject anything wider or taller than this before decoding it fully
+export const MAX_INPUT_DIMENSION = 8000
+
+// Guards against decompression bombs: small files that expand to huge bitmaps
+export const MAX_INPUT_PIXELS = 40_000_000
+
+export const MIN_INPUT_DIMENSION = 64
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif']
+
+export type ImageValidationCode =
+  | 'missing_file'
+  | 'too_large'
+  | 'unsupported_type'
+  | 'too_small'
+  | 'dimensions_too_large'
+  | 'too_many_pixels'
+  | 'corrupt'
+
+export type ImageValidationError = {
+  code: ImageValidationCode
+  message: string
+}
+
+const MESSAGES: Record<ImageValidationCode, string> = {
+  missing_file: 'Choose an image to upload',
+  too_large: `Images must be under ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`,
+  unsupported_type: 'Only JPEG, PNG, WebP, GIF and AVIF images are supported',
+  too_small: `Images must be at least ${MIN_INPUT_DIMENSION}×${MIN_INPUT_DIMENSION} pixels`,
+  dimensions_too_large: `Images can be at most ${MAX_INPUT_DIMENSION} pixels on each side`,
+  too_many_pixels: `Images can be at most ${MAX_INPUT_PIXELS / 1_000_000} megapixels`,
+  corrupt: 'This image could not be read. Try exporting it again.'
+}
+
+export function imageValidationError(code: ImageValidationCode): ImageValidationError {
+  return { code, message: MESSAGES[code] }
+}
+
+// JSON body the upload routes send back when they reject a file
+export function validationErrorBody(error: ImageValidationError): { error: string, code: ImageValidationCode } {
+  return { error: error.message, code: error.code }
+}
+
+// Quick checks on what the browser reports about a file. The server sniffs the
+// actual bytes, so this only saves a round trip for obvious mistakes.
+export function validateImageFile(file: Pick<File, 'size' | 'type'> | null): ImageValidationError | null {
+  if (!file) return imageValidationError('missing_file')
+  if (file.size > MAX_UPLOAD_BYTES) return imageValidationError('too_large')
+  if (file.type && !ACCEPTED_IMAGE_TYPES.includes(file.type)) return imageValidationError('unsupported_type')
+  return null
+}
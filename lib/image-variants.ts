@@ -0,0 +1,67 @@
+// Resized copies of every upload, generated once in the upload routes and
+// picked by the browser through srcset. next/image runs unoptimized here, so
+// without these every card would download the full-size original.
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg'
+
+export type ImageVariant = {
+  url: string
+  width: number
+  height: number
+  format: ImageFormat
+}
+
+// Target widths for photo variants: grid cards, single column and full view
+export const PHOTO_VARIANT_WIDTHS = [320, 768, 1600]
+
+// Best compression first; browsers take the first <source> they support
+export const PHOTO_VARIANT_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg']
+
+// Avatars are stored at 512px, with WebP copies for 1x and 2x screens
+// alongside. They live at `<user>/<timestamp>/512.jpg` so the copies can be
+// found from the URL alone.
+export const AVATAR_SIZE = 512
+export const AVATAR_VARIANT_SIZES = [128, 256]
+
+const AVATAR_URL_PATTERN = /\/avatars\/[^/]+\/\d+\/512\.jpg$/
+
+export const CONTENT_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg'
+}
+
+export const EXTENSIONS: Record<ImageFormat, string> = {
+  avif: 'avif',
+  webp: 'webp',
+  jpeg: 'jpg'
+}
+
+// Widths to generate for an image of the given width: every target smaller
+// than the image, plus the image itself (capped at the largest target)
+export function variantWidths(sourceWidth: number): number[] {
+  const largest = PHOTO_VARIANT_WIDTHS[PHOTO_VARIANT_WIDTHS.length - 1]
+  const widths = PHOTO_VARIANT_WIDTHS.filter(width => width < sourceWidth)
+  const full = Math.min(sourceWidth, largest)
+
+  return widths.includes(full) ? widths : [...widths, full]
+}
+
+// "url 320w, url 768w, ..." for one format, or '' if there are none
+export function buildSrcSet(variants: ImageVariant[] | null | undefined, format: ImageFormat): string {
+  return (variants || [])
+    .filter(variant => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(variant => `${variant.url} ${variant.width}w`)
+    .join(', ')
+}
+
+// Density-based srcset for avatars uploaded with variants, undefined otherwise
+export function avatarSrcSet(url: string | null | undefined): string | undefined {
+  if (!url || !AVATAR_URL_PATTERN.test(url)) return undefined
+
+  const base = url.slice(0, -'512.jpg'.length)
+  return AVATAR_VARIANT_SIZES
+    .map((size, i) => `${base}${size}.webp ${i + 1}x`)
+    .join(', ')
+}
@@ -0,0 +1,183 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { PHOTO_SELECT, toPhoto, type Photo } from './photo-service'
+import { type Profile } from './profile-service'
+import { bayesianAverage, getGlobalRatingMean, getRatingPriorStrength } from './rating-aggregation'
+import { fetchAllPages } from './pagination'
+
+export type LeaderboardPeriod = 'week' | 'month' | 'all'
+
+export const LEADERBOARD_PERIODS: { value: LeaderboardPeriod, label: string, days: number | null }[] = [
+  { value: 'week', label: 'This week', days: 7 },
+  { value: 'month', label: 'This month', days: 30 },
+  { value: 'all', label: 'All time', days: null }
+]
+
+// Photos need this many votes before they can be ranked
+export const MIN_PHOTO_VOTES = 5
+
+// Athletes need this many ratings received in the period before they can be ranked
+export const MIN_ATHLETE_VOTES = 10
+
+export const LEADERBOARD_SIZE = 25
+
+// How long a computed leaderboard is served before being rebuilt
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+export type AthleteLeaderboardEntry = {
+  profile: Pick<Profile, 'id' | 'username' | 'full_name' | 'avatar_url'>
+  // Bayesian average of the ratings received, pulled towards the global mean
+  weightedRating: number
+  averageRating: number
+  votesCount: number
+}
+
+export type Leaderboard = {
+  period: LeaderboardPeriod
+  photos: Photo[]
+  athletes: AthleteLeaderboardEntry[]
+}
+
+type RatingTotals = { sum: number, count: number }
+
+const leaderboardCache = new Map<LeaderboardPeriod, { leaderboard: Leaderboard, cachedAt: number }>()
+
+export function parseLeaderboardPeriod(value: string | null): LeaderboardPeriod {
+  return LEADERBOARD_PERIODS.some(period => period.value === value) ? value as LeaderboardPeriod : 'week'
+}
+
+// ISO timestamp the period starts at, or null for all time
+export function periodStart(period: LeaderboardPeriod, now: Date = new Date()): string | null {
+  const days = LEADERBOARD_PERIODS.find(p => p.value === period)?.days
+  return days ? new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString() : null
+}
+
+// Order users by the weighted average of the ratings they received, dropping
+// anyone under the vote threshold
+export function rankAthletes(
+  totals: Map<string, RatingTotals>,
+  priorMean: number,
+  priorStrength: number,
+  minVotes: number = MIN_ATHLETE_VOTES
+): { userId: string, weightedRating: number, averageRating: number, votesCount: number }[] {
+  return Array.from(totals.entries())
+    .filter(([, { count }]) => count >= minVotes)
+    .map(([userId, { sum, count }]) => ({
+      userId,
+      weightedRating: parseFloat(bayesianAverage(sum, count, priorMean, priorStrength).toFixed(2)),
+      averageRating: parseFloat((sum / count).toFixed(1)),
+      votesCount: count
+    }))
+    .sort((a, b) => b.weightedRating - a.weightedRating || b.votesCount - a.votesCount)
+}
+
+function addTotals(totals: Map<string, RatingTotals>, userId: string, sum: number, count: number) {
+  const current = totals.get(userId) || { sum: 0, count: 0 }
+  totals.set(userId, { sum: current.sum + sum, count: current.count + count })
+}
+
+// Sum and count of the ratings each uploader received since `since`. All-time
+// totals come straight from the photo aggregates; shorter periods read the
+// ratings cast inside them.
+async function getReceivedTotals(client: SupabaseClient, since: string | null): Promise<Map<string, RatingTotals>> {
+  const totals = new Map<string, RatingTotals>()
+
+  if (!since) {
+    const photos = await fetchAllPages<{ user_id: string, rating_sum: number | null, votes_count: number | null }>((from, to) =>
+      client
+        .from('photos')
+        .select('user_id, rating_sum, votes_count')
+        .gt('votes_count', 0)
+        .order('id')
+        .range(from, to)
+    )
+
+    for (const photo of photos) {
+      addTotals(totals, photo.user_id, photo.rating_sum || 0, photo.votes_count || 0)
+    }
+
+    return totals
+  }
+
+  const ratings = await fetchAllPages<{ rating: number, photo: unknown }>((from, to) =>
+    client
+      .from('ratings')
+      .select('rating, photo:photo_id!inner ( user_id )')
+      .gte('created_at', since)
+      .not('is_flagged', 'is', true)
+      .order('id')
+      .range(from, to)
+  )
+
+  for (const row of ratings) {
+    const photo = row.photo as { user_id: string } | null
+    if (photo) addTotals(totals, photo.user_id, row.rating, 1)
+  }
+
+  return totals
+}
+
+// Top photos uploaded in the period by weighted rating
+async function getTopPhotos(client: SupabaseClient, since: string | null): Promise<Photo[]> {
+  let request = client
+    .from('photos')
+    .select(PHOTO_SELECT)
+    .gte('votes_count', MIN_PHOTO_VOTES)
+
+  if (since) request = request.gte('created_at', since)
+
+  const { data, error } = await request
+    .order('weighted_rating', { ascending: false })
+    .order('votes_count', { ascending: false })
+    .limit(LEADERBOARD_SIZE)
+
+  if (error) throw error
+
+  return (data || []).map(toPhoto)
+}
+
+async function getTopAthletes(client: SupabaseClient, since: string | null): Promise<AthleteLeaderboardEntry[]> {
+  const [totals, priorMean, priorStrength] = await Promise.all([
+    getReceivedTotals(client, since),
+    getGlobalRatingMean(),
+    getRatingPriorStrength(client)
+  ])
+
+  const ranked = rankAthletes(totals, priorMean, priorStrength).slice(0, LEADERBOARD_SIZE)
+  if (ranked.length === 0) return []
+
+  const { data, error } = await client
+    .from('profiles')
+    .select('id, username, full_name, avatar_url')
+    .in('id', ranked.map(entry => entry.userId))
+
+  if (error) throw error
+
+  const profiles = new Map((data || []).map(profile => [profile.id as string, profile]))
+
+  return ranked
+    .filter(entry => profiles.has(entry.userId))
+    .map(({ userId, ...entry }) => ({ profile: profiles.get(userId)!, ...entry }))
+}
+
+// Build the photo and athlete leaderboards for a period on the server,
+// reusing a recent result since rankings move slowly
+export async function computeLeaderboard(
+  client: SupabaseClient,
+  period: LeaderboardPeriod
+): Promise<Leaderboard> {
+  const cached = leaderboardCache.get(period)
+  if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
+    return cached.leaderboard
+  }
+
+  const since = periodStart(period)
+  const [photos, athletes] = await Promise.all([
+    getTopPhotos(client, since),
+    getTopAthletes(client, since)
+  ])
+
+  const leaderboard = { period, photos, athletes }
+  leaderboardCache.set(period, { leaderboard, cachedAt: Date.now() })
+
+  return leaderboard
+}
@@ -0,0 +1,127 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { getAuthHeaders } from './supabase'
+import { PHOTO_SELECT, toPhoto, type Photo } from './photo-service'
+
+export type Matchup = {
+  id: string
+  user_id: string
+  winner_id: string
+  loser_id: string
+  created_at: string
+}
+
+// A pair of photos issued to one user. Votes are only accepted for an issued
+// pair, once; the Elo update itself runs in the database (record_matchup).
+export type MatchupPair = {
+  id: string
+  photos: [Photo, Photo]
+}
+
+export type MatchupResult = 'recorded' | 'not_found' | 'already_judged' | 'rate_limited'
+
+// Every photo enters the ladder at this rating
+export const DEFAULT_ELO = 1500
+
+// Pick two photos worth comparing: one that still needs matches, and the
+// closest-rated opponent the user hasn't already judged it against. The pair
+// is chosen and recorded as issued to the user in the database
+// (issue_matchup_pair), so only it can be voted on. Null once the user has
+// judged every pair.
+export async function issueMatchupPair(client: SupabaseClient, userId: string): Promise<MatchupPair | null> {
+  const { data: issued, error } = await client
+    .rpc('issue_matchup_pair', { p_user_id: userId })
+    .maybeSingle()
+
+  if (error) throw error
+
+  if (!issued) {
+    return null
+  }
+
+  const pair = issued as { id: string, photo_a: string, photo_b: string }
+
+  const { data: photos, error: photosError } = await client
+    .from('photos')
+    .select(PHOTO_SELECT)
+    .in('id', [pair.photo_a, pair.photo_b])
+
+  if (photosError) throw photosError
+
+  const first = photos?.find(photo => photo.id === pair.photo_a)
+  const opponent = photos?.find(photo => photo.id === pair.photo_b)
+
+  if (!first || !opponent) {
+    return null
+  }
+
+  return { id: pair.id, photos: [toPhoto(first), toPhoto(opponent)] }
+}
+
+// Record the user's pick for a pair issued to them and move both photos' Elo ratings
+export async function judgeMatchup(
+  client: SupabaseClient,
+  userId: string,
+  pairId: string,
+  winnerId: string
+): Promise<MatchupResult> {
+  const { data, error } = await client.rpc('record_matchup', {
+    p_pair_id: pairId,
+    p_user_id: userId,
+    p_winner_id: winnerId
+  })
+
+  if (error) throw error
+
+  return data as MatchupResult
+}
+
+// Get the next pair for the signed-in user to judge
+export async function getMatchupPair(): Promise<MatchupPair | null> {
+  try {
+    const response = await fetch('/api/matchups', {
+      headers: await getAuthHeaders()
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to load matchup')
+    }
+
+    const { pair } = await response.json()
+
+    return pair
+  } catch (error) {
+    console.error('Error getting matchup pair:', error)
+    return null
+  }
+}
+
+// Submit which photo of an issued pair the signed-in user picked
+export async function recordMatchup(
+  pairId: string,
+  winnerId: string
+): Promise<{ success: boolean, error?: Error }> {
+  try {
+    const response = await fetch('/api/matchups', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...await getAuthHeaders()
+      },
+      body: JSON.stringify({ pairId, winnerId })
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to record matchup')
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error recording matchup:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error))
+    }
+  }
+}
@@ -0,0 +1,127 @@
+// Keyset (cursor) pagination helpers. Offset paging skips or repeats rows when
+// new rows arrive or scores reorder results between page loads; seeking past
+// the last row seen doesn't.
+
+export type Page<T> = {
+  items: T[]
+  // Pass back to fetch the next page; null when there are no more rows
+  nextCursor: string | null
+}
+
+export type PageOptions = {
+  cursor?: string | null
+  limit?: number
+}
+
+// Column values of the last row on a page, in sort-key order
+type CursorValues = (string | number | null)[]
+
+// Sort keys, most significant first. Every key is descending with nulls last
+// (order with `nullsFirst: false`), and the list must end with a unique
+// non-null column (usually `id`) so the order is total.
+export type SortKeys = string[]
+
+type EncodedCursor = {
+  k: string
+  v: CursorValues
+}
+
+function keysSignature(keys: SortKeys) {
+  return keys.join(',')
+}
+
+// Cursors are opaque to callers: base64 JSON tagged with the sort keys they were made for
+export function encodeCursor(keys: SortKeys, row: Record<string, unknown>): string {
+  const cursor: EncodedCursor = {
+    k: keysSignature(keys),
+    v: keys.map(key => (row[key] ?? null) as string | number | null)
+  }
+  return btoa(JSON.stringify(cursor))
+}
+
+// Returns null for malformed cursors or ones made for a different sort order
+export function decodeCursor(keys: SortKeys, cursor: string): CursorValues | null {
+  try {
+    const decoded = JSON.parse(atob(cursor)) as EncodedCursor
+
+    if (decoded.k !== keysSignature(keys) || !Array.isArray(decoded.v) || decoded.v.length !== keys.length) {
+      return null
+    }
+
+    return decoded.v
+  } catch {
+    return null
+  }
+}
+
+// Quote values so timestamps and other punctuation survive PostgREST's filter syntax
+function filterValue(value: string | number) {
+  return typeof value === 'number' ? String(value) : `"${value.replace(/(["\\])/g, '\\$1')}"`
+}
+
+function tieFilter(key: string, value: string | number | null) {
+  return value === null ? `${key}.is.null` : `${key}.eq.${filterValue(value)}`
+}
+
+// PostgREST `or` filter selecting rows that sort strictly after the cursor:
+// k1 < v1, or (k1 = v1 and k2 < v2), and so on down the keys. Nulls sort
+// last, so they follow every value, and nothing follows a null.
+export function keysetFilter(keys: SortKeys, values: CursorValues): string {
+  return keys.flatMap((key, i) => {
+    const value = values[i]
+    if (value === null) return []
+
+    const ties = keys.slice(0, i).map((tieKey, j) => tieFilter(tieKey, values[j]))
+
+    if (ties.length === 0) {
+      return [`${key}.lt.${filterValue(value)}`, `${key}.is.null`]
+    }
+
+    return [`and(${[...ties, `or(${key}.lt.${filterValue(value)},${key}.is.null)`].join(',')})`]
+  }).join(',')
+}
+
+// Build a page from rows fetched with `limit + 1`, using the extra row only to
+// tell whether another page exists
+export function toPage<Row, T>(
+  rows: Row[],
+  limit: number,
+  keys: SortKeys,
+  map: (row: Row) => T
+): Page<T> {
+  const pageRows = rows.slice(0, limit)
+  const last = pageRows[pageRows.length - 1]
+
+  return {
+    items: pageRows.map(map),
+    nextCursor: rows.length > limit && last
+      ? encodeCursor(keys, last as Record<string, unknown>)
+      : null
+  }
+}
+
+// PostgREST caps responses, so large result sets are read in pages of this size
+const FETCH_ALL_PAGE_SIZE = 1000
+
+// Read every row of a query, one page at a time. For whole-table reads rather
+// than user-facing pages; the query must be ordered so pages don't overlap.
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null, error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = []
+  let from = 0
+
+  while (true) {
+    const { data, error } = await fetchPage(from, from + FETCH_ALL_PAGE_SIZE - 1)
+
+    if (error) throw error
+    if (!data || data.length === 0) break
+
+    rows.push(...data)
+
+    if (data.length < FETCH_ALL_PAGE_SIZE) break
+    from += FETCH_ALL_PAGE_SIZE
+  }
+
+  return rows
+}
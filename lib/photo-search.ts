@@ -0,0 +1,115 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { PHOTO_SELECT, toPhoto, type Photo } from './photo-service'
+import { normalizeTags } from './photo-tags'
+
+export type PhotoSearchSort = 'relevance' | 'latest' | 'top_rated'
+
+export type PhotoSearchFilters = {
+  query: string
+  minRating?: number
+  maxRating?: number
+  // ISO timestamps bounding created_at
+  from?: string
+  to?: string
+  // Photos must carry every one of these tags
+  tags?: string[]
+  // Uploader's username
+  uploader?: string
+  sort?: PhotoSearchSort
+  limit?: number
+}
+
+export const MAX_SEARCH_RESULTS = 50
+
+// Read the filters from a query string, ignoring anything malformed
+export function parsePhotoSearchParams(params: URLSearchParams): PhotoSearchFilters {
+  const number = (key: string) => {
+    const value = params.get(key)
+    const parsed = value === null || value === '' ? NaN : Number(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+  const date = (key: string) => {
+    const value = params.get(key)
+    return value && !isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined
+  }
+  const sort = params.get('sort')
+
+  return {
+    query: (params.get('q') || '').trim(),
+    minRating: number('minRating'),
+    maxRating: number('maxRating'),
+    from: date('from'),
+    to: date('to'),
+    tags: params.get('tags') ? normalizeTags(params.get('tags')!.split(',')) : undefined,
+    uploader: params.get('uploader')?.trim() || undefined,
+    sort: sort === 'latest' || sort === 'top_rated' ? sort : 'relevance',
+    limit: Math.min(MAX_SEARCH_RESULTS, Math.max(1, number('limit') ?? 20))
+  }
+}
+
+// The inverse of parsePhotoSearchParams, for building request URLs
+export function toPhotoSearchParams(filters: PhotoSearchFilters): URLSearchParams {
+  const params = new URLSearchParams({ q: filters.query })
+
+  if (filters.minRating !== undefined) params.set('minRating', String(filters.minRating))
+  if (filters.maxRating !== undefined) params.set('maxRating', String(filters.maxRating))
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.tags?.length) params.set('tags', filters.tags.join(','))
+  if (filters.uploader) params.set('uploader', filters.uploader)
+  if (filters.sort) params.set('sort', filters.sort)
+  if (filters.limit) params.set('limit', String(filters.limit))
+
+  return params
+}
+
+// Run a search against the `search_vector` full-text column (title,
+// description and tags) and return filtered results. Relevance is ranked by
+// the database (search_photos); the other sorts reorder its matches.
+export async function runPhotoSearch(
+  client: SupabaseClient,
+  filters: PhotoSearchFilters
+): Promise<Photo[]> {
+  const { query, minRating, maxRating, from, to, tags, uploader, sort = 'relevance' } = filters
+  const limit = Math.min(filters.limit || 20, MAX_SEARCH_RESULTS)
+
+  if (!query) {
+    return []
+  }
+
+  let request = client.rpc('search_photos', { p_query: query })
+
+  if (minRating !== undefined) request = request.gte('rating', minRating)
+  if (maxRating !== undefined) request = request.lte('rating', maxRating)
+  if (from) request = request.gte('created_at', from)
+  if (to) request = request.lte('created_at', to)
+  if (tags && tags.length > 0) request = request.contains('tags', tags)
+
+  if (uploader) {
+    const { data: profile, error } = await client
+      .from('profiles')
+      .select('id')
+      .eq('username', uploader)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!profile) return []
+
+    request = request.eq('user_id', profile.id)
+  }
+
+  let results = request.select(PHOTO_SELECT)
+
+  // Without an explicit order, results keep search_photos' relevance ranking
+  if (sort === 'top_rated') {
+    results = results.order('weighted_rating', { ascending: false, nullsFirst: false })
+  } else if (sort === 'latest') {
+    results = results.order('created_at', { ascending: false })
+  }
+
+  const { data, error } = await results.limit(limit)
+
+  if (error) throw error
+
+  return (data || []).map(toPhoto)
+}
@@ -1,4 +1,10 @@
 import { supabase } from './supabase'
+import { type DimensionAggregates, type RatingDimension } from './rating-dimensions'
+import { decodeCursor, encodeCursor, keysetFilter, toPage, type Page, type PageOptions, type SortKeys } from './pagination'
+import { EMPTY_FOR_YOU_CONTEXT, loadForYouContext, rankForYou } from './for-you-ranking'
+import { normalizeTag } from './photo-tags'
+import { toPhotoSearchParams, type PhotoSearchFilters } from './photo-search'
+import { type ImageVariant } from './image-variants'
 
 export type Photo = {
   id: string
@@ -6,8 +12,29 @@ export type Photo = {
   title: string
   description?: string
   image_url: string
+  // Resized copies of image_url in several formats (see image-variants)
+  image_variants?: ImageVariant[] | null
+  // Stored size and load placeholder, captured at upload. Missing on older photos.
+  image_width?: number | null
+  image_height?: number | null
+  blur_data_url?: string | null
+  dominant_color?: string | null
   rating: number
+  // Mean after normalizing harsh and generous raters (see supabase/migrations)
+  calibrated_rating: number
   votes_count: number
+  rating_sum: number
+  weighted_rating: number
+  // Dimensions raters are asked to score, chosen by the uploader
+  rating_dimensions?: RatingDimension[] | null
+  dimension_ratings?: DimensionAggregates | null
+  // Head-to-head ladder rating from the matchup mode
+  elo_rating?: number
+  matchups_count?: number
+  // Time-decayed engagement, recomputed on a schedule (see trending)
+  trending_score?: number
+  // Normalized lowercase tags (see photo-tags)
+  tags?: string[] | null
   likes_count: number
   comments_count: number
   created_at: string
@@ -32,68 +59,263 @@ export type Comment = {
   }
 }
 
-// Get all photos with optional filtering and pagination
+export type PhotoOrder = 'latest' | 'popular' | 'trending' | 'top_rated' | 'head_to_head' | 'for_you'
+
+// Keyset for each column-sorted gallery order, ending in `id` to break ties
+const PHOTO_SORT_KEYS: Record<Exclude<PhotoOrder, 'for_you'>, SortKeys> = {
+  latest: ['created_at', 'id'],
+  popular: ['votes_count', 'id'],
+  trending: ['trending_score', 'id'],
+  // Weighted score so a single 10/10 vote can't outrank a well-reviewed photo
+  top_rated: ['weighted_rating', 'votes_count', 'id'],
+  head_to_head: ['elo_rating', 'matchups_count', 'id']
+}
+
+// For You scores are computed in memory, so its cursor also pins the moment the
+// ranking was made; later pages are ranked as of that same moment
+const FOR_YOU_SORT_KEYS: SortKeys = ['ranked_at', 'score', 'id']
+
+// Rankings handed out recently, keyed by viewer and ranked_at. Later pages are
+// cut from the same ranking instead of re-scoring photos whose likes and
+// ratings have moved since, which would shift scores between pages.
+const forYouSnapshots = new Map<string, { photo: Photo, score: number }[]>()
+
+// Only the newest few rankings are kept; an evicted one is ranked again
+const FOR_YOU_SNAPSHOTS_KEPT = 5
+
+// How many of the newest photos are considered for the For You ranking
+const FOR_YOU_POOL_SIZE = 300
+
+export const PHOTO_SELECT = `
+  *,
+  user:user_id (
+    username,
+    avatar_url,
+    full_name
+  )
+`
+
+export type PhotoRow = Omit<Photo, 'user'> & {
+  user?: { username: string, avatar_url?: string, full_name?: string } | null
+}
+
+// Transform a row joined with PHOTO_SELECT to match our Photo type
+export function toPhoto(item: PhotoRow): Photo {
+  return {
+    ...item,
+    user: item.user ? {
+      username: item.user.username,
+      avatar_url: item.user.avatar_url,
+      name: item.user.full_name
+    } : undefined
+  }
+}
+
+// Rank the newest photos for a viewer (see for-you-ranking) as of `rankedAt`
+async function rankForYouPool(
+  viewerId: string | undefined,
+  rankedAt: string
+): Promise<{ photo: Photo, score: number }[]> {
+  // Photos uploaded after the ranking was made wait for a fresh feed
+  let query = supabase
+    .from('photos')
+    .select(PHOTO_SELECT)
+    .lte('created_at', rankedAt)
+  
+  // Nobody needs their own photos recommended to them
+  if (viewerId) {
+    query = query.neq('user_id', viewerId)
+  }
+  
+  const [{ data, error }, context] = await Promise.all([
+    query
+      .order('created_at', { ascending: false })
+      .limit(FOR_YOU_POOL_SIZE),
+    viewerId ? loadForYouContext(viewerId) : Promise.resolve(EMPTY_FOR_YOU_CONTEXT)
+  ])
+  
+  if (error) throw error
+  
+  return rankForYou((data || []).map(toPhoto), context, new Date(rankedAt).getTime())
+}
+
+// One page of the viewer's For You ranking
+async function getForYouPage(options: PageOptions & { viewerId?: string }): Promise<Page<Photo>> {
+  const { cursor, limit = 20, viewerId } = options
+  
+  const values = cursor ? decodeCursor(FOR_YOU_SORT_KEYS, cursor) : null
+  if (cursor && !values) throw new Error('Invalid cursor')
+  
+  const rankedAt = values ? String(values[0]) : new Date().toISOString()
+  const snapshotKey = `${viewerId || ''}:${rankedAt}`
+  
+  let ranked = forYouSnapshots.get(snapshotKey)
+  
+  if (!ranked) {
+    ranked = await rankForYouPool(viewerId, rankedAt)
+    forYouSnapshots.set(snapshotKey, ranked)
+    
+    const oldest = forYouSnapshots.keys().next().value
+    if (forYouSnapshots.size > FOR_YOU_SNAPSHOTS_KEPT && oldest !== undefined) {
+      forYouSnapshots.delete(oldest)
+    }
+  }
+  
+  // Seek past the last photo of the previous page
+  if (values) {
+    const [, lastScore, lastId] = values as [string, number, string]
+    ranked = ranked.filter(({ photo, score }) =>
+      score < lastScore || (score === lastScore && photo.id < lastId)
+    )
+  }
+  
+  const pageRows = ranked.slice(0, limit)
+  const last = pageRows[pageRows.length - 1]
+  
+  return {
+    items: pageRows.map(({ photo }) => photo),
+    nextCursor: ranked.length > limit && last
+      ? encodeCursor(FOR_YOU_SORT_KEYS, { ranked_at: rankedAt, score: last.score, id: last.photo.id })
+      : null
+  }
+}
+
+// IDs of every account a user follows
+async function getFollowedUserIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('followers')
+    .select('followed_id')
+    .eq('follower_id', userId)
+  
+  if (error) throw error
+  
+  return (data || []).map(row => row.followed_id)
+}
+
+// Get all photos with optional filtering and cursor pagination
 export async function getAllPhotos(
-  options: {
-    page?: number, 
-    limit?: number, 
-    orderBy?: 'latest' | 'popular' | 'top_rated',
-    userId?: string
+  options: PageOptions & {
+    orderBy?: PhotoOrder,
+    userId?: string,
+    // Only photos from accounts this user follows
+    followedBy?: string,
+    // Signed-in viewer, used to personalize the for_you order
+    viewerId?: string,
+    // Only photos uploaded at or after this ISO timestamp
+    createdAfter?: string,
+    // Only photos carrying this tag
+    tag?: string
   } = {}
-): Promise<Photo[]> {
+): Promise<Page<Photo>> {
   try {
     const { 
-      page = 1, 
+      cursor,
       limit = 20, 
       orderBy = 'latest',
-      userId
+      userId,
+      followedBy,
+      viewerId,
+      createdAfter,
+      tag
     } = options
     
+    // Ranked in memory rather than by a column; ignores the other filters
+    if (orderBy === 'for_you') {
+      return await getForYouPage({ cursor, limit, viewerId })
+    }
+    
+    const sortKeys = PHOTO_SORT_KEYS[orderBy]
+    
     let query = supabase
       .from('photos')
-      .select(`
-        *,
-        user:user_id (
-          username,
-          avatar_url,
-          full_name
-        )
-      `)
+      .select(PHOTO_SELECT)
     
     // Apply filtering
     if (userId) {
       query = query.eq('user_id', userId)
     }
     
-    // Apply ordering
-    if (orderBy === 'latest') {
-      query = query.order('created_at', { ascending: false })
-    } else if (orderBy === 'popular') {
-      query = query.order('votes_count', { ascending: false })
-    } else if (orderBy === 'top_rated') {
-      query = query.order('rating', { ascending: false })
+    if (createdAfter) {
+      query = query.gte('created_at', createdAfter)
     }
     
-    // Apply pagination
-    const from = (page - 1) * limit
-    const to = from + limit - 1
-    query = query.range(from, to)
+    if (tag) {
+      query = query.contains('tags', [normalizeTag(tag)])
+    }
     
-    const { data, error } = await query
+    if (followedBy) {
+      const followedIds = await getFollowedUserIds(followedBy)
+      if (followedIds.length === 0) {
+        return { items: [], nextCursor: null }
+      }
+      query = query.in('user_id', followedIds)
+    }
+    
+    // Seek past the last photo of the previous page
+    if (cursor) {
+      const values = decodeCursor(sortKeys, cursor)
+      if (!values) throw new Error('Invalid cursor')
+      query = query.or(keysetFilter(sortKeys, values))
+    }
+    
+    // Apply ordering; photos missing a score (e.g. never trended) go last
+    sortKeys.forEach(key => {
+      query = query.order(key, { ascending: false, nullsFirst: false })
+    })
+    
+    // One extra row tells us whether there is another page
+    const { data, error } = await query.limit(limit + 1)
     
     if (error) throw error
     
-    // Transform the result to match our Photo type
-    return (data || []).map(item => ({
-      ...item,
-      user: item.user ? {
-        username: item.user.username,
-        avatar_url: item.user.avatar_url,
-        name: item.user.full_name
-      } : undefined
-    }))
+    return toPage(data || [], limit, sortKeys, toPhoto)
   } catch (error) {
     console.error('Error fetching photos:', error)
+    return { items: [], nextCursor: null }
+  }
+}
+
+// Recent photos from the accounts a user follows. When that comes up empty (they
+// follow nobody, or nobody they follow has posted) the feed falls back to top
+// rated photos so there is still something to browse, flagged as `suggested`.
+export async function getFollowingFeed(
+  userId: string,
+  options: PageOptions = {}
+): Promise<Page<Photo> & { suggested: boolean }> {
+  const { cursor, limit } = options
+  
+  // A top-rated cursor means we are already paging through suggestions
+  const continuingSuggestions = !!cursor && decodeCursor(PHOTO_SORT_KEYS.top_rated, cursor) !== null
+  
+  if (!continuingSuggestions) {
+    const page = await getAllPhotos({ cursor, limit, orderBy: 'latest', followedBy: userId })
+    if (page.items.length > 0 || cursor) {
+      return { ...page, suggested: false }
+    }
+  }
+  
+  const suggestions = await getAllPhotos({ cursor, limit, orderBy: 'top_rated' })
+  return { ...suggestions, suggested: true }
+}
+
+// Full-text search over titles, descriptions and tags (see /api/search/photos)
+export async function searchPhotos(filters: PhotoSearchFilters): Promise<Photo[]> {
+  try {
+    if (!filters.query.trim()) {
+      return []
+    }
+    
+    const response = await fetch(`/api/search/photos?${toPhotoSearchParams(filters)}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to search photos')
+    }
+    
+    const { photos } = await response.json()
+    return photos
+  } catch (error) {
+    console.error('Error searching photos:', error)
     return []
   }
 }
@@ -159,7 +381,8 @@ export async function getPhoto(photoId: string): Promise<Photo | null> {
 
 // Get photos uploaded by a specific user
 export async function getUserPhotos(userId: string): Promise<Photo[]> {
-  return getAllPhotos({ userId, orderBy: 'latest', limit: 50 })
+  const { items } = await getAllPhotos({ userId, orderBy: 'latest', limit: 50 })
+  return items
 }
 
 // Upload a new photo
@@ -196,7 +419,13 @@ export async function uploadPhoto(
         description: metadata.description || null,
         image_url: urlData.publicUrl,
         rating: 0,
+        calibrated_rating: 0,
         votes_count: 0,
+        rating_sum: 0,
+        weighted_rating: 0,
+        elo_rating: 1500,
+        matchups_count: 0,
+        trending_score: 0,
         likes_count: 0,
         comments_count: 0,
         created_at: new Date().toISOString(),
@@ -279,7 +508,7 @@ export async function deletePhoto(
     // First, verify the user owns this photo
     const { data: photo, error: fetchError } = await supabase
       .from('photos')
-      .select('image_url, user_id')
+      .select('image_url, image_variants, user_id')
       .eq('id', photoId)
       .single();
     
@@ -306,6 +535,9 @@ export async function deletePhoto(
     // Extract the filename from the URL
     const imageUrl = photoData.image_url;
     const fileName = imageUrl ? imageUrl.split('/').pop() : null;
+    const variantFileNames = ((photoData.image_variants || []) as ImageVariant[])
+      .map(variant => variant.url.split('/').pop())
+      .filter((name): name is string => !!name);
     
     // Begin a transaction to delete all related data
     // 1. Delete comments
@@ -316,15 +548,8 @@ export async function deletePhoto(
     
     if (commentsError) throw commentsError;
     
-    // 2. Delete ratings
-    const { error: ratingsError } = await supabase
-      .from('ratings')
-      .delete()
-      .eq('photo_id', photoId);
-    
-    if (ratingsError) throw ratingsError;
-    
-    // 3. Delete likes
+    // 2. Delete likes. Ratings go with the photo (on delete cascade) and
+    // their history stays in the append-only event log.
     const { error: likesError } = await supabase
       .from('likes')
       .delete()
@@ -332,7 +557,7 @@ export async function deletePhoto(
     
     if (likesError) throw likesError;
     
-    // 4. Delete the photo record
+    // 3. Delete the photo record
     const { error: photoError } = await supabase
       .from('photos')
       .delete()
@@ -340,11 +565,11 @@ export async function deletePhoto(
     
     if (photoError) throw photoError;
     
-    // 5. Delete the image file from storage
+    // 4. Delete the image file from storage
     if (fileName) {
       const { error: storageError } = await supabase.storage
         .from('images')
-        .remove([fileName]);
+        .remove([fileName, ...variantFileNames]);
       
       if (storageError) {
         console.error('Error deleting image file:', storageError);
@@ -453,10 +678,17 @@ export async function hasLikedPhoto(
   }
 }
 
-// Get comments for a photo
-export async function getPhotoComments(photoId: string): Promise<Comment[]> {
+const COMMENT_SORT_KEYS: SortKeys = ['created_at', 'id']
+
+// Get comments for a photo, newest first, one page at a time
+export async function getPhotoComments(
+  photoId: string,
+  options: PageOptions = {}
+): Promise<Page<Comment>> {
   try {
-    const { data, error } = await supabase
+    const { cursor, limit = 20 } = options
+    
+    let query = supabase
       .from('comments')
       .select(`
         *,
@@ -466,11 +698,21 @@ export async function getPhotoComments(photoId: string): Promise<Comment[]> {
         )
       `)
       .eq('photo_id', photoId)
+    
+    if (cursor) {
+      const values = decodeCursor(COMMENT_SORT_KEYS, cursor)
+      if (!values) throw new Error('Invalid cursor')
+      query = query.or(keysetFilter(COMMENT_SORT_KEYS, values))
+    }
+    
+    const { data, error } = await query
       .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1)
     
     if (error) throw error
     
-    return (data || []).map(comment => ({
+    return toPage(data || [], limit, COMMENT_SORT_KEYS, comment => ({
       ...comment,
       user: comment.user ? {
         username: comment.user.username,
@@ -479,7 +721,7 @@ export async function getPhotoComments(photoId: string): Promise<Comment[]> {
     }))
   } catch (error) {
     console.error('Error fetching comments:', error)
-    return []
+    return { items: [], nextCursor: null }
   }
 }
 
@@ -0,0 +1,81 @@
+import { supabase } from './supabase'
+
+// Offered in autocomplete before the community has used any tags of its own
+export const SUGGESTED_TAGS = [
+  'cutting',
+  'bulking',
+  'maintenance',
+  'progress',
+  'before-after',
+  'back',
+  'chest',
+  'shoulders',
+  'arms',
+  'abs',
+  'legs',
+  'glutes'
+]
+
+export const MAX_TAGS = 5
+export const MAX_TAG_LENGTH = 24
+
+// How many recent photos are scanned to find popular tags for autocomplete
+const TAG_SAMPLE_SIZE = 500
+
+// Canonical form: lowercase, words joined by hyphens, letters and digits only.
+// Returns an empty string when nothing usable is left.
+export function normalizeTag(raw: string): string {
+  return raw
+    .toLowerCase()
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH)
+}
+
+// Normalize, drop empties and duplicates, and keep at most MAX_TAGS
+export function normalizeTags(tags: string[]): string[] {
+  const unique = new Set<string>()
+
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag)
+    if (normalized) unique.add(normalized)
+    if (unique.size === MAX_TAGS) break
+  }
+
+  return Array.from(unique)
+}
+
+// Tags in recent use, most used first, topped up from SUGGESTED_TAGS.
+// Loaded once by the tag input and filtered locally as the user types.
+export async function getPopularTags(limit: number = 50): Promise<string[]> {
+  try {
+    const { data, error } = await supabase
+      .from('photos')
+      .select('tags')
+      .not('tags', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(TAG_SAMPLE_SIZE)
+
+    if (error) throw error
+
+    const counts = new Map<string, number>()
+    for (const row of data || []) {
+      for (const tag of (row.tags as string[] | null) || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1)
+      }
+    }
+
+    const used = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([tag]) => tag)
+
+    return Array.from(new Set([...used, ...SUGGESTED_TAGS])).slice(0, limit)
+  } catch (error) {
+    console.error('Error fetching popular tags:', error)
+    return SUGGESTED_TAGS.slice(0, limit)
+  }
+}
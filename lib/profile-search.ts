@@ -0,0 +1,159 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { type Profile } from './profile-service'
+import { decodeCursor, encodeCursor, type Page } from './pagination'
+
+export const MAX_PROFILE_RESULTS = 50
+
+// Rows fetched per candidate query before ranking in memory
+const CANDIDATE_LIMIT = 200
+
+// Public columns only; the search endpoint runs with the service role
+const PROFILE_COLUMNS = 'id, username, full_name, bio, avatar_url, followers_count, following_count, created_at, updated_at'
+
+// Search results page by position in the ranked list
+const OFFSET_KEYS = ['offset']
+
+// Ranking tiers, best first
+export const MATCH_TIERS = {
+  exactUsername: 0,
+  usernamePrefix: 1,
+  usernameSubstring: 2,
+  fullName: 3,
+  fuzzy: 4
+} as const
+
+export type MatchTier = typeof MATCH_TIERS[keyof typeof MATCH_TIERS]
+
+// Escape LIKE wildcards so user input only ever matches literally
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
+
+// Classic edit distance, stopping early once it exceeds `max`
+export function levenshtein(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+// Longer queries tolerate more typos
+export function allowedTypos(query: string): number {
+  if (query.length < 4) return 0
+  return query.length < 8 ? 1 : 2
+}
+
+type SearchableProfile = Pick<Profile, 'username' | 'full_name'>
+
+// Which tier a profile falls in for a query, or null if it doesn't match
+export function matchTier(profile: SearchableProfile, query: string): MatchTier | null {
+  const needle = query.toLowerCase()
+  const username = (profile.username || '').toLowerCase()
+  const fullName = (profile.full_name || '').toLowerCase()
+
+  if (username === needle) return MATCH_TIERS.exactUsername
+  if (username.startsWith(needle)) return MATCH_TIERS.usernamePrefix
+  if (username.includes(needle)) return MATCH_TIERS.usernameSubstring
+  if (fullName.includes(needle)) return MATCH_TIERS.fullName
+
+  const typos = allowedTypos(needle)
+  if (typos > 0) {
+    // Compare against the username and against same-length prefixes of it, so
+    // "johm" finds "john_lifts"
+    const prefix = username.slice(0, needle.length)
+    if (levenshtein(needle, username, typos) <= typos || levenshtein(needle, prefix, typos) <= typos) {
+      return MATCH_TIERS.fuzzy
+    }
+  }
+
+  return null
+}
+
+// Order matches by tier, then by popularity, then alphabetically
+export function rankProfiles<T extends Profile>(profiles: T[], query: string): T[] {
+  return profiles
+    .map(profile => ({ profile, tier: matchTier(profile, query) }))
+    .filter((match): match is { profile: T, tier: MatchTier } => match.tier !== null)
+    .sort((a, b) =>
+      a.tier - b.tier ||
+      (b.profile.followers_count || 0) - (a.profile.followers_count || 0) ||
+      a.profile.username.localeCompare(b.profile.username)
+    )
+    .map(({ profile }) => profile)
+}
+
+// Search profiles by username or full name. Every filter value is passed as
+// its own parameter (no hand-built `or` strings) with wildcards escaped.
+export async function runProfileSearch(
+  client: SupabaseClient,
+  rawQuery: string,
+  options: { cursor?: string | null, limit?: number } = {}
+): Promise<Page<Profile>> {
+  const query = rawQuery.trim()
+  const limit = Math.min(Math.max(1, options.limit || 20), MAX_PROFILE_RESULTS)
+
+  if (!query) {
+    return { items: [], nextCursor: null }
+  }
+
+  const offsetValues = options.cursor ? decodeCursor(OFFSET_KEYS, options.cursor) : null
+  if (options.cursor && !offsetValues) throw new Error('Invalid cursor')
+  const offset = offsetValues ? Number(offsetValues[0]) : 0
+
+  // Exact and prefix matches get their own queries so a popular substring
+  // can't fill the candidate limit and crowd out the best-tier results
+  const escaped = escapeLike(query)
+  const pattern = `%${escaped}%`
+  const candidateQueries = [
+    client.from('profiles').select(PROFILE_COLUMNS).ilike('username', escaped).limit(CANDIDATE_LIMIT),
+    client.from('profiles').select(PROFILE_COLUMNS).ilike('username', `${escaped}%`).limit(CANDIDATE_LIMIT),
+    client.from('profiles').select(PROFILE_COLUMNS).ilike('username', pattern).limit(CANDIDATE_LIMIT),
+    client.from('profiles').select(PROFILE_COLUMNS).ilike('full_name', pattern).limit(CANDIDATE_LIMIT)
+  ]
+
+  // Typo candidates share the first two characters with the query; a typo
+  // that early is not caught
+  if (allowedTypos(query) > 0) {
+    candidateQueries.push(
+      client
+        .from('profiles')
+        .select(PROFILE_COLUMNS)
+        .ilike('username', `${escapeLike(query.slice(0, 2))}%`)
+        .order('followers_count', { ascending: false })
+        .limit(CANDIDATE_LIMIT)
+    )
+  }
+
+  const results = await Promise.all(candidateQueries)
+
+  const candidates = new Map<string, Profile>()
+  for (const { data, error } of results) {
+    if (error) throw error
+    for (const profile of (data || []) as Profile[]) {
+      candidates.set(profile.id, profile)
+    }
+  }
+
+  const ranked = rankProfiles(Array.from(candidates.values()), query)
+  const end = offset + limit
+
+  return {
+    items: ranked.slice(offset, end),
+    nextCursor: ranked.length > end ? encodeCursor(OFFSET_KEYS, { offset: end }) : null
+  }
+}
@@ -1,5 +1,6 @@
-import { supabase } from './supabase'
+import { supabase, getAuthHeaders } from './supabase'
 import { type Photo } from './photo-service'
+import { decodeCursor, keysetFilter, toPage, type Page, type PageOptions, type SortKeys } from './pagination'
 
 export type Profile = {
   id: string
@@ -118,6 +119,7 @@ export async function uploadAvatar(
     // Use the new API route for avatar upload
     const response = await fetch('/api/upload-avatar', {
       method: 'POST',
+      headers: await getAuthHeaders(),
       body: formData
     });
 
@@ -256,17 +258,27 @@ export async function isFollowing(followerId: string, followedId: string): Promi
   }
 }
 
-// Get a user's followers
-export async function getFollowers(userId: string): Promise<Profile[]> {
+// Follow rows page by when the follow happened
+const FOLLOW_SORT_KEYS: SortKeys = ['created_at', 'id']
+
+// Get a user's followers, most recent first
+export async function getFollowers(
+  userId: string,
+  options: PageOptions = {}
+): Promise<Page<Profile>> {
   try {
     if (!userId) {
       console.error('getFollowers: No userId provided');
-      return [];
+      return { items: [], nextCursor: null };
     }
 
-    const { data, error } = await supabase
+    const { cursor, limit = 50 } = options;
+
+    let query = supabase
       .from('followers')
       .select(`
+        id,
+        created_at,
         follower:follower_id (
           id,
           username,
@@ -279,6 +291,17 @@ export async function getFollowers(userId: string): Promise<Profile[]> {
         )
       `)
       .eq('followed_id', userId)
+
+    if (cursor) {
+      const values = decodeCursor(FOLLOW_SORT_KEYS, cursor);
+      if (!values) throw new Error('Invalid cursor');
+      query = query.or(keysetFilter(FOLLOW_SORT_KEYS, values));
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
     
     if (error) {
       console.error('Error fetching followers:', error);
@@ -286,24 +309,31 @@ export async function getFollowers(userId: string): Promise<Profile[]> {
     }
     
     // Transform the result to match our Profile type
-    return (data || []).map(item => item.follower as unknown as Profile);
+    return toPage(data || [], limit, FOLLOW_SORT_KEYS, item => item.follower as unknown as Profile);
   } catch (error) {
     console.error('Error fetching followers:', error)
-    return []
+    return { items: [], nextCursor: null }
   }
 }
 
-// Get users followed by a user
-export async function getFollowing(userId: string): Promise<Profile[]> {
+// Get users followed by a user, most recent first
+export async function getFollowing(
+  userId: string,
+  options: PageOptions = {}
+): Promise<Page<Profile>> {
   try {
     if (!userId) {
       console.error('getFollowing: No userId provided');
-      return [];
+      return { items: [], nextCursor: null };
     }
 
-    const { data, error } = await supabase
+    const { cursor, limit = 50 } = options;
+
+    let query = supabase
       .from('followers')
       .select(`
+        id,
+        created_at,
         followed:followed_id (
           id,
           username,
@@ -316,6 +346,17 @@ export async function getFollowing(userId: string): Promise<Profile[]> {
         )
       `)
       .eq('follower_id', userId)
+
+    if (cursor) {
+      const values = decodeCursor(FOLLOW_SORT_KEYS, cursor);
+      if (!values) throw new Error('Invalid cursor');
+      query = query.or(keysetFilter(FOLLOW_SORT_KEYS, values));
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
     
     if (error) {
       console.error('Error fetching following:', error);
@@ -323,10 +364,10 @@ export async function getFollowing(userId: string): Promise<Profile[]> {
     }
     
     // Transform the result to match our Profile type
-    return (data || []).map(item => item.followed as unknown as Profile);
+    return toPage(data || [], limit, FOLLOW_SORT_KEYS, item => item.followed as unknown as Profile);
   } catch (error) {
     console.error('Error fetching following:', error)
-    return []
+    return { items: [], nextCursor: null }
   }
 }
 
@@ -461,29 +502,31 @@ export async function getUserPhotosByUsername(username: string): Promise<Photo[]
   }
 }
 
-// Search profiles by username or full name
-export async function searchProfiles(query: string): Promise<Profile[]> {
+// Search profiles by username or full name, best matches first (see /api/search/profiles)
+export async function searchProfiles(
+  query: string,
+  options: PageOptions = {}
+): Promise<Page<Profile>> {
   try {
     if (!query || query.trim() === '') {
-      return [];
+      return { items: [], nextCursor: null };
     }
 
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .or(`username.ilike.%${query}%,full_name.ilike.%${query}%`)
-      .order('followers_count', { ascending: false })
-      .limit(20)
+    const params = new URLSearchParams({ q: query.trim() });
+    if (options.cursor) params.set('cursor', options.cursor);
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const response = await fetch(`/api/search/profiles?${params}`);
     
-    if (error) {
-      console.error('Error searching profiles:', error);
-      throw error;
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to search profiles');
     }
     
-    return data || []
+    return await response.json()
   } catch (error) {
     console.error('Error searching profiles:', error)
-    return []
+    return { items: [], nextCursor: null }
   }
 }
 
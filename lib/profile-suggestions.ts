@@ -0,0 +1,186 @@
+import { supabase } from './supabase'
+import { getPopularProfiles, type Profile } from './profile-service'
+
+export type SuggestedProfile = Profile & {
+  // Short explanation shown under the name, e.g. "Followed by 3 people you follow"
+  reason?: string
+}
+
+// Ratings at or above this count as "rated highly"
+const HIGH_RATING = 8
+
+// Points each kind of evidence adds to a candidate's score
+const SIGNAL_WEIGHTS = {
+  mutualFollow: 3,
+  coRating: 2,
+  sharedTag: 1
+}
+
+// Caps on rows read per signal, to keep the lookup cheap
+const SIGNAL_ROW_LIMIT = 500
+
+type Evidence = {
+  mutualFollows: number
+  coRatings: number
+  sharedTags: number
+}
+
+type Candidates = Map<string, Evidence>
+
+function addEvidence(candidates: Candidates, userId: string, key: keyof Evidence) {
+  const evidence = candidates.get(userId) || { mutualFollows: 0, coRatings: 0, sharedTags: 0 }
+  evidence[key]++
+  candidates.set(userId, evidence)
+}
+
+export function suggestionScore(evidence: Evidence): number {
+  return evidence.mutualFollows * SIGNAL_WEIGHTS.mutualFollow
+    + evidence.coRatings * SIGNAL_WEIGHTS.coRating
+    + evidence.sharedTags * SIGNAL_WEIGHTS.sharedTag
+}
+
+// Explain the strongest signal behind a suggestion
+export function suggestionReason(evidence: Evidence): string {
+  if (evidence.mutualFollows > 0) {
+    return `Followed by ${evidence.mutualFollows} ${evidence.mutualFollows === 1 ? 'person' : 'people'} you follow`
+  }
+  if (evidence.coRatings > 0) {
+    return 'Rates the same photos highly as you'
+  }
+  return 'Posts photos with tags you like'
+}
+
+// Accounts followed by the accounts the viewer follows
+async function collectMutualFollows(candidates: Candidates, followedIds: string[]) {
+  if (followedIds.length === 0) return
+
+  const { data, error } = await supabase
+    .from('followers')
+    .select('followed_id')
+    .in('follower_id', followedIds)
+    .limit(SIGNAL_ROW_LIMIT)
+
+  if (error) throw error
+
+  for (const row of data || []) {
+    addEvidence(candidates, row.followed_id, 'mutualFollows')
+  }
+}
+
+// Raters who scored the viewer's favourite photos highly too
+async function collectCoRaters(candidates: Candidates, likedPhotoIds: string[]) {
+  if (likedPhotoIds.length === 0) return
+
+  const { data, error } = await supabase
+    .from('ratings')
+    .select('user_id')
+    .in('photo_id', likedPhotoIds)
+    .gte('rating', HIGH_RATING)
+    .limit(SIGNAL_ROW_LIMIT)
+
+  if (error) throw error
+
+  for (const row of data || []) {
+    addEvidence(candidates, row.user_id, 'coRatings')
+  }
+}
+
+// Uploaders of photos sharing tags with what the viewer posts or rates highly
+async function collectSharedTags(candidates: Candidates, tags: string[]) {
+  if (tags.length === 0) return
+
+  const { data, error } = await supabase
+    .from('photos')
+    .select('user_id')
+    .overlaps('tags', tags)
+    .order('created_at', { ascending: false })
+    .limit(SIGNAL_ROW_LIMIT)
+
+  if (error) throw error
+
+  for (const row of data || []) {
+    addEvidence(candidates, row.user_id, 'sharedTags')
+  }
+}
+
+// Profiles the viewer might want to follow, from friends-of-friends, raters
+// with similar taste and shared tags. Never includes the viewer or anyone they
+// already follow; topped up with popular profiles when the signals run dry.
+export async function getSuggestedProfiles(viewerId: string, limit: number = 5): Promise<SuggestedProfile[]> {
+  try {
+    const [follows, ratings, ownPhotos] = await Promise.all([
+      supabase.from('followers').select('followed_id').eq('follower_id', viewerId),
+      supabase
+        .from('ratings')
+        .select('photo_id, photo:photo_id ( tags )')
+        .eq('user_id', viewerId)
+        .gte('rating', HIGH_RATING)
+        .order('created_at', { ascending: false })
+        .limit(100),
+      supabase.from('photos').select('tags').eq('user_id', viewerId)
+    ])
+
+    if (follows.error) throw follows.error
+    if (ratings.error) throw ratings.error
+    if (ownPhotos.error) throw ownPhotos.error
+
+    const followedIds = (follows.data || []).map(row => row.followed_id as string)
+    const likedPhotoIds = (ratings.data || []).map(row => row.photo_id as string)
+
+    const tags = new Set<string>()
+    for (const row of ownPhotos.data || []) {
+      for (const tag of (row.tags as string[] | null) || []) tags.add(tag)
+    }
+    for (const row of ratings.data || []) {
+      const photo = row.photo as unknown as { tags: string[] | null } | null
+      for (const tag of photo?.tags || []) tags.add(tag)
+    }
+
+    const candidates: Candidates = new Map()
+    await Promise.all([
+      collectMutualFollows(candidates, followedIds),
+      collectCoRaters(candidates, likedPhotoIds),
+      collectSharedTags(candidates, Array.from(tags))
+    ])
+
+    const excluded = new Set([viewerId, ...followedIds])
+    const ranked = Array.from(candidates.entries())
+      .filter(([userId]) => !excluded.has(userId))
+      .sort((a, b) => suggestionScore(b[1]) - suggestionScore(a[1]))
+      .slice(0, limit)
+
+    let suggestions: SuggestedProfile[] = []
+
+    if (ranked.length > 0) {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .in('id', ranked.map(([userId]) => userId))
+
+      if (error) throw error
+
+      const profiles = new Map((data || []).map((profile: Profile) => [profile.id, profile]))
+      suggestions = ranked
+        .filter(([userId]) => profiles.has(userId))
+        .map(([userId, evidence]) => ({ ...profiles.get(userId)!, reason: suggestionReason(evidence) }))
+    }
+
+    // Not enough signal yet (new accounts): fill up with popular profiles
+    if (suggestions.length < limit) {
+      const seen = new Set([...excluded, ...suggestions.map(profile => profile.id)])
+      const popular = await getPopularProfiles(Math.min(limit + excluded.size, 100))
+
+      suggestions.push(
+        ...popular
+          .filter(profile => !seen.has(profile.id))
+          .slice(0, limit - suggestions.length)
+          .map(profile => ({ ...profile, reason: 'Popular in the community' }))
+      )
+    }
+
+    return suggestions
+  } catch (error) {
+    console.error('Error fetching suggested profiles:', error)
+    return []
+  }
+}
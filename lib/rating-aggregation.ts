@@ -0,0 +1,109 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { type DimensionAggregates } from './rating-dimensions'
+import { fetchAllPages } from './pagination'
+
+export type PhotoAggregate = {
+  // Plain mean of the scores raters gave
+  rating: number
+  // Mean after normalizing each rater against their own history
+  calibrated_rating: number
+  votes_count: number
+  rating_sum: number
+  weighted_rating: number
+  dimension_ratings: DimensionAggregates
+}
+
+// Used if rating_settings can't be read; matches the column's default
+const DEFAULT_PRIOR_STRENGTH = 10
+
+// Used until there are enough ratings to compute a meaningful global mean
+const DEFAULT_PRIOR_MEAN = 5.5
+
+// How long the global mean is reused before being fetched again
+const GLOBAL_MEAN_TTL_MS = 5 * 60 * 1000
+
+let cachedGlobalMean: { value: number, fetchedAt: number } | null = null
+
+// Bayesian average: the photo's own votes pulled towards the global mean
+export function bayesianAverage(
+  sum: number,
+  count: number,
+  priorMean: number,
+  priorStrength: number
+): number {
+  if (count + priorStrength === 0) return 0
+
+  return (priorStrength * priorMean + sum) / (priorStrength + count)
+}
+
+// Get the mean of every rating on the site, cached for a few minutes
+export async function getGlobalRatingMean(forceRefresh: boolean = false): Promise<number> {
+  if (!forceRefresh && cachedGlobalMean && Date.now() - cachedGlobalMean.fetchedAt < GLOBAL_MEAN_TTL_MS) {
+    return cachedGlobalMean.value
+  }
+
+  try {
+    const photos = await fetchAllPages<{ rating_sum: number | null, votes_count: number | null }>((from, to) =>
+      supabase
+        .from('photos')
+        .select('rating_sum, votes_count')
+        .gt('votes_count', 0)
+        .order('id')
+        .range(from, to)
+    )
+
+    const totals = photos.reduce(
+      (acc, photo) => ({
+        sum: acc.sum + (photo.rating_sum || 0),
+        count: acc.count + (photo.votes_count || 0)
+      }),
+      { sum: 0, count: 0 }
+    )
+
+    const value = totals.count > 0 ? totals.sum / totals.count : DEFAULT_PRIOR_MEAN
+    cachedGlobalMean = { value, fetchedAt: Date.now() }
+
+    return value
+  } catch (error) {
+    console.error('Error fetching global rating mean:', error)
+    return cachedGlobalMean?.value ?? DEFAULT_PRIOR_MEAN
+  }
+}
+
+// How many "virtual" votes at the global mean every photo starts with. Read
+// from rating_settings, which the aggregate trigger uses for weighted_rating,
+// so rankings computed here agree with the stored scores.
+export async function getRatingPriorStrength(client: SupabaseClient): Promise<number> {
+  try {
+    const { data, error } = await client
+      .from('rating_settings')
+      .select('prior_strength')
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data ? Number(data.prior_strength) : DEFAULT_PRIOR_STRENGTH
+  } catch (error) {
+    console.error('Error fetching rating prior strength:', error)
+    return DEFAULT_PRIOR_STRENGTH
+  }
+}
+
+// Get the aggregate currently stored on a photo
+export async function getPhotoAggregate(client: SupabaseClient, photoId: string): Promise<PhotoAggregate | null> {
+  try {
+    const { data, error } = await client
+      .from('photos')
+      .select('rating, calibrated_rating, votes_count, rating_sum, weighted_rating, dimension_ratings')
+      .eq('id', photoId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data
+  } catch (error) {
+    console.error('Error fetching photo aggregate:', error)
+    return null
+  }
+}
@@ -0,0 +1,58 @@
+export const RATING_DIMENSIONS = [
+  {
+    key: 'muscularity',
+    label: 'Muscularity',
+    description: 'Overall muscle size and fullness'
+  },
+  {
+    key: 'symmetry',
+    label: 'Symmetry',
+    description: 'Balance between left/right and upper/lower body'
+  },
+  {
+    key: 'conditioning',
+    label: 'Conditioning',
+    description: 'Leanness, definition and vascularity'
+  },
+  {
+    key: 'aesthetics',
+    label: 'Aesthetics',
+    description: 'Proportions, shape and overall look'
+  }
+] as const
+
+export type RatingDimension = typeof RATING_DIMENSIONS[number]['key']
+
+// A score from 1 to 10 for each dimension the rater filled in
+export type DimensionScores = Partial<Record<RatingDimension, number>>
+
+export type DimensionAggregate = {
+  average: number
+  count: number
+}
+
+export type DimensionAggregates = Partial<Record<RatingDimension, DimensionAggregate>>
+
+// Photos uploaded before dimensions existed are rated on all of them
+export const DEFAULT_RATING_DIMENSIONS: RatingDimension[] = RATING_DIMENSIONS.map(d => d.key)
+
+export function isRatingDimension(key: string): key is RatingDimension {
+  return RATING_DIMENSIONS.some(d => d.key === key)
+}
+
+export function getDimensionLabel(key: RatingDimension): string {
+  return RATING_DIMENSIONS.find(d => d.key === key)?.label || key
+}
+
+export function isValidScore(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 10
+}
+
+// Overall 1-10 score for a set of dimension scores
+export function overallFromScores(scores: DimensionScores): number {
+  const values = Object.values(scores).filter(isValidScore)
+
+  if (values.length === 0) return 0
+
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+}
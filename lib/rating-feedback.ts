@@ -0,0 +1,240 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { getAuthHeaders } from './supabase'
+
+export const FEEDBACK_CHIPS = [
+  'Shoulders',
+  'Chest',
+  'Arms',
+  'Back',
+  'Core',
+  'Legs',
+  'Proportions',
+  'Leanness',
+  'Posing',
+  'Lighting'
+] as const
+
+export type FeedbackChip = typeof FEEDBACK_CHIPS[number]
+
+// Why a rater gave the score they did, stored on the rating row
+export type RatingJustification = {
+  strengths: FeedbackChip[]
+  weaknesses: FeedbackChip[]
+  feedback?: string | null
+}
+
+export type ChipCount = {
+  chip: FeedbackChip
+  count: number
+}
+
+export type FeedbackSummary = {
+  totalWithFeedback: number
+  strengths: ChipCount[]
+  weaknesses: ChipCount[]
+  // Most recent written notes, without rater identities
+  notes: { rating: number, feedback: string, created_at: string }[]
+}
+
+export const MAX_FEEDBACK_LENGTH = 280
+
+const MAX_NOTES = 10
+
+const EMPTY_FEEDBACK_SUMMARY: FeedbackSummary = { totalWithFeedback: 0, strengths: [], weaknesses: [], notes: [] }
+
+export function isFeedbackChip(value: string): value is FeedbackChip {
+  return (FEEDBACK_CHIPS as readonly string[]).includes(value)
+}
+
+// Count how often each chip was picked, most common first
+export function countChips(lists: (string[] | null | undefined)[]): ChipCount[] {
+  const counts: Partial<Record<FeedbackChip, number>> = {}
+
+  lists.forEach(list => {
+    (list || []).filter(isFeedbackChip).forEach(chip => {
+      counts[chip] = (counts[chip] || 0) + 1
+    })
+  })
+
+  return Object.entries(counts)
+    .map(([chip, count]) => ({ chip: chip as FeedbackChip, count: count || 0 }))
+    .sort((a, b) => b.count - a.count)
+}
+
+// Clean up a justification sent by a rater, or say what's wrong with it
+export function parseJustification(
+  value: Partial<RatingJustification> | null | undefined
+): RatingJustification | { error: string } {
+  const feedback = typeof value?.feedback === 'string' ? value.feedback.trim() || null : null
+
+  if (feedback && feedback.length > MAX_FEEDBACK_LENGTH) {
+    return { error: `Feedback must be ${MAX_FEEDBACK_LENGTH} characters or fewer` }
+  }
+
+  const strengths = (Array.isArray(value?.strengths) ? value.strengths : []).filter(isFeedbackChip)
+  const weaknesses = (Array.isArray(value?.weaknesses) ? value.weaknesses : []).filter(isFeedbackChip)
+
+  if (strengths.some(chip => weaknesses.includes(chip))) {
+    return { error: 'A body part cannot be both a strength and a weakness' }
+  }
+
+  return { strengths, weaknesses, feedback }
+}
+
+// Read the justification a user attached to their rating, if they rated the
+// photo. Justifications are hidden from clients, so this needs the service role.
+export async function readJustification(
+  client: SupabaseClient,
+  userId: string,
+  photoId: string
+): Promise<(RatingJustification & { rating: number }) | null> {
+  const { data, error } = await client
+    .from('ratings')
+    .select('rating, strengths, weaknesses, feedback')
+    .eq('user_id', userId)
+    .eq('photo_id', photoId)
+    .maybeSingle()
+
+  if (error) throw error
+
+  if (!data) return null
+
+  return {
+    rating: data.rating,
+    strengths: data.strengths || [],
+    weaknesses: data.weaknesses || [],
+    feedback: data.feedback || null
+  }
+}
+
+// Store a justification on the user's rating. False if they haven't rated the photo.
+export async function writeJustification(
+  client: SupabaseClient,
+  userId: string,
+  photoId: string,
+  justification: RatingJustification
+): Promise<boolean> {
+  const { data, error } = await client
+    .from('ratings')
+    .update({
+      strengths: justification.strengths,
+      weaknesses: justification.weaknesses,
+      feedback: justification.feedback || null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId)
+    .eq('photo_id', photoId)
+    .select('id')
+
+  if (error) throw error
+
+  return !!data && data.length > 0
+}
+
+// Aggregate the feedback on a set of photos. Callers check the photos belong
+// to the user asking; raters' notes are for the owner's eyes only.
+export async function summarizeFeedback(client: SupabaseClient, photoIds: string[]): Promise<FeedbackSummary> {
+  if (photoIds.length === 0) return EMPTY_FEEDBACK_SUMMARY
+
+  const { data, error } = await client
+    .from('ratings')
+    .select('rating, strengths, weaknesses, feedback, created_at')
+    .in('photo_id', photoIds)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  const rows = (data || []).filter(r =>
+    (r.strengths && r.strengths.length > 0) ||
+    (r.weaknesses && r.weaknesses.length > 0) ||
+    r.feedback
+  )
+
+  return {
+    totalWithFeedback: rows.length,
+    strengths: countChips(rows.map(r => r.strengths)),
+    weaknesses: countChips(rows.map(r => r.weaknesses)),
+    notes: rows
+      .filter(r => r.feedback)
+      .slice(0, MAX_NOTES)
+      .map(r => ({ rating: r.rating, feedback: r.feedback, created_at: r.created_at }))
+  }
+}
+
+// Attach or replace the justification on a user's existing rating
+export async function saveRatingJustification(
+  userId: string,
+  photoId: string,
+  justification: RatingJustification
+): Promise<{ success: boolean, error?: Error }> {
+  try {
+    const response = await fetch('/api/ratings/justification', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...await getAuthHeaders()
+      },
+      body: JSON.stringify({ userId, photoId, ...justification })
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to save feedback')
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error saving rating justification:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error))
+    }
+  }
+}
+
+// Get the justification a user attached to their rating, if any
+export async function getRatingJustification(
+  userId: string,
+  photoId: string
+): Promise<(RatingJustification & { rating: number }) | null> {
+  try {
+    const params = new URLSearchParams({ userId, photoId })
+    const response = await fetch(`/api/ratings/justification?${params}`, {
+      headers: await getAuthHeaders()
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to fetch feedback')
+    }
+
+    const { justification } = await response.json()
+
+    return justification || null
+  } catch (error) {
+    console.error('Error getting rating justification:', error)
+    return null
+  }
+}
+
+// Aggregate the feedback on a set of the signed-in user's photos
+export async function getFeedbackSummary(photoIds: string[]): Promise<FeedbackSummary> {
+  try {
+    if (photoIds.length === 0) return EMPTY_FEEDBACK_SUMMARY
+
+    const params = new URLSearchParams({ photoIds: photoIds.join(',') })
+    const response = await fetch(`/api/ratings/feedback?${params}`, {
+      headers: await getAuthHeaders()
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to fetch feedback')
+    }
+
+    return await response.json()
+  } catch (error) {
+    console.error('Error getting feedback summary:', error)
+    return EMPTY_FEEDBACK_SUMMARY
+  }
+}
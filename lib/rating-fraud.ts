@@ -0,0 +1,304 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { isModerator } from './request-auth'
+
+export type FlagReason = 'new_account_burst' | 'single_uploader_focus' | 'reciprocal_ring'
+
+export type FlagStatus = 'pending' | 'cleared' | 'confirmed'
+
+export type RatingFlag = {
+  id: string
+  rating_id: string
+  photo_id: string
+  rater_id: string
+  reasons: FlagReason[]
+  details?: string | null
+  status: FlagStatus
+  created_at: string
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+}
+
+// Accounts younger than this count as "new" for burst detection
+const NEW_ACCOUNT_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+// A photo getting this many ratings from new accounts within the window is a burst
+const BURST_WINDOW_MS = 60 * 60 * 1000
+const BURST_THRESHOLD = 5
+
+// Raters with at least this many ratings, all on one uploader, are suspicious
+const SINGLE_UPLOADER_MIN_RATINGS = 5
+
+// Two users rating each other at least this often, always at the extremes, form a ring
+const RING_MIN_RATINGS = 3
+const RING_EXTREME_HIGH = 9
+const RING_EXTREME_LOW = 2
+
+export const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  new_account_burst: 'Part of a burst of ratings from newly created accounts',
+  single_uploader_focus: 'Rater only ever rates photos from this uploader',
+  reciprocal_ring: 'Rater and uploader consistently give each other extreme scores'
+}
+
+type ScreenedRating = {
+  id: string
+  user_id: string
+  photo_id: string
+}
+
+// Ratings on this photo inside the burst window that came from new accounts
+async function findNewAccountBurst(client: SupabaseClient, photoId: string): Promise<ScreenedRating[]> {
+  const since = new Date(Date.now() - BURST_WINDOW_MS).toISOString()
+
+  const { data: recent, error } = await client
+    .from('ratings')
+    .select('id, user_id, photo_id')
+    .eq('photo_id', photoId)
+    .gte('created_at', since)
+
+  if (error) throw error
+  if (!recent || recent.length < BURST_THRESHOLD) return []
+
+  const { data: profiles, error: profilesError } = await client
+    .from('profiles')
+    .select('id, created_at')
+    .in('id', recent.map(r => r.user_id))
+
+  if (profilesError) throw profilesError
+
+  const cutoff = Date.now() - NEW_ACCOUNT_AGE_MS
+  const newAccounts = new Set(
+    (profiles || [])
+      .filter(p => new Date(p.created_at).getTime() > cutoff)
+      .map(p => p.id)
+  )
+
+  const burst = recent.filter(r => newAccounts.has(r.user_id))
+
+  return burst.length >= BURST_THRESHOLD ? burst : []
+}
+
+// Whether every rating this user has given went to the same uploader
+async function ratesOnlyOneUploader(client: SupabaseClient, raterId: string, uploaderId: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('ratings')
+    .select('photo:photo_id (user_id)')
+    .eq('user_id', raterId)
+
+  if (error) throw error
+
+  const uploaders = (data || []).map(r => (r.photo as unknown as { user_id: string } | null)?.user_id)
+
+  return uploaders.length >= SINGLE_UPLOADER_MIN_RATINGS &&
+    uploaders.every(id => id === uploaderId)
+}
+
+// Scores one user has given to another user's photos
+async function getScoresBetween(client: SupabaseClient, raterId: string, uploaderId: string): Promise<number[]> {
+  const { data, error } = await client
+    .from('ratings')
+    .select('rating, photo:photo_id!inner (user_id)')
+    .eq('user_id', raterId)
+    .eq('photo.user_id', uploaderId)
+
+  if (error) throw error
+
+  return (data || []).map(r => r.rating)
+}
+
+// Whether the rater and uploader keep trading extreme scores in the same direction
+async function isReciprocalRing(client: SupabaseClient, raterId: string, uploaderId: string): Promise<boolean> {
+  const [given, received] = await Promise.all([
+    getScoresBetween(client, raterId, uploaderId),
+    getScoresBetween(client, uploaderId, raterId)
+  ])
+
+  if (given.length < RING_MIN_RATINGS || received.length < RING_MIN_RATINGS) {
+    return false
+  }
+
+  const allHigh = [...given, ...received].every(score => score >= RING_EXTREME_HIGH)
+  const allLow = [...given, ...received].every(score => score <= RING_EXTREME_LOW)
+
+  return allHigh || allLow
+}
+
+// Mark ratings as excluded from aggregates and record why
+async function flagRatings(
+  client: SupabaseClient,
+  ratings: ScreenedRating[],
+  reasons: FlagReason[],
+  details?: string
+): Promise<void> {
+  if (ratings.length === 0) return
+
+  const { data: existing, error: existingError } = await client
+    .from('rating_flags')
+    .select('rating_id, status')
+    .in('rating_id', ratings.map(r => r.id))
+
+  if (existingError) throw existingError
+
+  // A moderator's decision stands: a cleared rating isn't flagged again by the
+  // next rating in the same burst. Pending ones already await review.
+  const reviewed = new Set((existing || []).filter(f => f.status !== 'pending').map(f => f.rating_id))
+  const alreadyPending = new Set((existing || []).filter(f => f.status === 'pending').map(f => f.rating_id))
+  const toFlag = ratings.filter(r => !reviewed.has(r.id))
+
+  if (toFlag.length === 0) return
+
+  const { error: updateError } = await client
+    .from('ratings')
+    .update({ is_flagged: true })
+    .in('id', toFlag.map(r => r.id))
+
+  if (updateError) throw updateError
+
+  const now = new Date().toISOString()
+
+  const rows = toFlag
+    .filter(r => !alreadyPending.has(r.id))
+    .map(r => ({
+      id: crypto.randomUUID(),
+      rating_id: r.id,
+      photo_id: r.photo_id,
+      rater_id: r.user_id,
+      reasons,
+      details: details || null,
+      status: 'pending',
+      created_at: now
+    }))
+
+  if (rows.length === 0) return
+
+  const { error: insertError } = await client
+    .from('rating_flags')
+    .insert(rows)
+
+  if (insertError) throw insertError
+}
+
+// Run every check against a freshly saved rating. Flagged ratings stop counting
+// towards photo aggregates until a moderator clears them. Needs the service
+// role: it reads other users' ratings and flags them.
+export async function screenRating(
+  client: SupabaseClient,
+  rating: ScreenedRating
+): Promise<{ flagged: boolean, reasons: FlagReason[] }> {
+  try {
+    const { data: photo, error: photoError } = await client
+      .from('photos')
+      .select('user_id')
+      .eq('id', rating.photo_id)
+      .single()
+
+    if (photoError) throw photoError
+
+    const uploaderId = photo.user_id
+    const reasons: FlagReason[] = []
+
+    const [burst, singleUploader, ring] = await Promise.all([
+      findNewAccountBurst(client, rating.photo_id),
+      ratesOnlyOneUploader(client, rating.user_id, uploaderId),
+      isReciprocalRing(client, rating.user_id, uploaderId)
+    ])
+
+    if (burst.length > 0) {
+      // The whole burst is suspect, not just the rating that tipped it over
+      await flagRatings(
+        client,
+        burst,
+        ['new_account_burst'],
+        `${burst.length} ratings from new accounts within ${BURST_WINDOW_MS / 60000} minutes`
+      )
+      if (burst.some(r => r.id === rating.id)) reasons.push('new_account_burst')
+    }
+
+    if (singleUploader) reasons.push('single_uploader_focus')
+    if (ring) reasons.push('reciprocal_ring')
+
+    const otherReasons = reasons.filter(r => r !== 'new_account_burst')
+    if (otherReasons.length > 0) {
+      await flagRatings(client, [rating], otherReasons)
+    }
+
+    if (reasons.length > 0) {
+      console.log(`Rating ${rating.id} flagged: ${reasons.join(', ')}`)
+    }
+
+    return { flagged: reasons.length > 0, reasons }
+  } catch (error) {
+    // Screening must never block a legitimate rating from being saved
+    console.error('Error screening rating:', error)
+    return { flagged: false, reasons: [] }
+  }
+}
+
+// Get flags awaiting moderator review, oldest first
+export async function getPendingFlags(client: SupabaseClient, limit: number = 50): Promise<RatingFlag[]> {
+  try {
+    const { data, error } = await client
+      .from('rating_flags')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching pending flags:', error)
+    return []
+  }
+}
+
+// Record a moderator's decision. Cleared ratings count towards aggregates again
+// (the ratings trigger recalculates the photo).
+export async function reviewFlag(
+  client: SupabaseClient,
+  flagId: string,
+  moderatorId: string,
+  decision: Exclude<FlagStatus, 'pending'>
+): Promise<{ success: boolean, error?: Error }> {
+  try {
+    if (!await isModerator(client, moderatorId)) {
+      return { success: false, error: new Error('Only moderators can review flags') }
+    }
+
+    const { data: flag, error: fetchError } = await client
+      .from('rating_flags')
+      .select('*')
+      .eq('id', flagId)
+      .single()
+
+    if (fetchError) throw fetchError
+
+    const { error: updateError } = await client
+      .from('rating_flags')
+      .update({
+        status: decision,
+        reviewed_by: moderatorId,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', flagId)
+
+    if (updateError) throw updateError
+
+    if (decision === 'cleared') {
+      const { error: ratingError } = await client
+        .from('ratings')
+        .update({ is_flagged: false })
+        .eq('id', flag.rating_id)
+
+      if (ratingError) throw ratingError
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error reviewing flag:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error))
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { supabase } from './supabase'
+import { fetchAllPages } from './pagination'
+import { type DimensionScores } from './rating-dimensions'
+
+export type RatingEventType = 'created' | 'updated' | 'removed'
+
+// One row per change to a rating, written by a trigger on ratings (see
+// supabase/migrations). Rows are only ever inserted, never updated or deleted,
+// so the full history of every photo's score can be replayed.
+export type RatingEvent = {
+  id: string
+  rating_id: string
+  user_id: string
+  photo_id: string
+  event_type: RatingEventType
+  rating: number | null
+  scores?: DimensionScores | null
+  previous_rating: number | null
+  created_at: string
+}
+
+export type ScoreTimelinePoint = {
+  at: string
+  rating: number
+  votes_count: number
+}
+
+type ReplayedRating = {
+  user_id: string
+  rating: number
+  scores: DimensionScores | null
+}
+
+// Replay events in order, returning each rater's current rating and the
+// photo's average after every event
+export function replayRatingEvents(events: RatingEvent[]): {
+  current: Record<string, ReplayedRating>
+  timeline: ScoreTimelinePoint[]
+} {
+  const current: Record<string, ReplayedRating> = {}
+  const timeline: ScoreTimelinePoint[] = []
+
+  const ordered = [...events].sort((a, b) =>
+    a.created_at === b.created_at
+      ? a.id.localeCompare(b.id)
+      : a.created_at.localeCompare(b.created_at)
+  )
+
+  ordered.forEach(event => {
+    if (event.event_type === 'removed' || event.rating === null) {
+      delete current[event.user_id]
+    } else {
+      current[event.user_id] = {
+        user_id: event.user_id,
+        rating: event.rating,
+        scores: event.scores || null
+      }
+    }
+
+    const values = Object.values(current)
+    const sum = values.reduce((total, r) => total + r.rating, 0)
+
+    timeline.push({
+      at: event.created_at,
+      rating: values.length > 0 ? parseFloat((sum / values.length).toFixed(2)) : 0,
+      votes_count: values.length
+    })
+  })
+
+  return { current, timeline }
+}
+
+// Get every event for a photo, oldest first
+export async function getPhotoRatingEvents(photoId: string): Promise<RatingEvent[]> {
+  try {
+    return await fetchAllPages<RatingEvent>((from, to) =>
+      supabase
+        .from('rating_events')
+        .select('*')
+        .eq('photo_id', photoId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    )
+  } catch (error) {
+    console.error('Error fetching rating events:', error)
+    return []
+  }
+}
+
+// How a photo's average score evolved over time
+export async function getPhotoScoreTimeline(photoId: string): Promise<ScoreTimelinePoint[]> {
+  const events = await getPhotoRatingEvents(photoId)
+  return replayRatingEvents(events).timeline
+}
+
+// A rater's own history on a photo, newest first
+export async function getUserRatingHistory(
+  userId: string,
+  photoId: string
+): Promise<RatingEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from('rating_events')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('photo_id', photoId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching user rating history:', error)
+    return []
+  }
+}
@@ -1,74 +1,52 @@
-import { supabase } from './supabase'
+import { supabase, getAuthHeaders } from './supabase'
+import { type PhotoAggregate } from './rating-aggregation'
+import { type FeedbackChip } from './rating-feedback'
+import { EMPTY_USER_STATS, type UserStats } from './user-stats'
+import { type Leaderboard, type LeaderboardPeriod } from './leaderboard'
+import { type DimensionScores } from './rating-dimensions'
 
 export type Rating = {
   id: string
   user_id: string
   photo_id: string
+  // Overall 1-10 score; the rounded mean of `scores` when the rater scored dimensions
   rating: number
+  scores?: DimensionScores | null
+  // Set by fraud screening; flagged ratings are left out of photo aggregates
+  is_flagged?: boolean
+  // Optional justification attached by the rater (see rating-feedback)
+  strengths?: FeedbackChip[] | null
+  weaknesses?: FeedbackChip[] | null
+  feedback?: string | null
   created_at: string
+  updated_at?: string | null
 }
 
-// Rate a photo
+// Rate a photo with a single score or a score per dimension. Saved by the
+// ratings API, which validates the scores and screens the rating for fraud.
 export async function ratePhoto(
   userId: string,
   photoId: string,
-  rating: number
-): Promise<{ success: boolean, error?: Error }> {
+  value: number | DimensionScores
+): Promise<{ success: boolean, aggregate?: PhotoAggregate, error?: Error }> {
   try {
-    console.log(`Rating photo: userId=${userId}, photoId=${photoId}, rating=${rating}`);
-    
-    // Check if user has already rated this photo
-    const { data: existingRating, error: checkError } = await supabase
-      .from('ratings')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('photo_id', photoId)
-      .maybeSingle()
-    
-    if (checkError) {
-      console.error('Error checking existing rating:', checkError);
-      throw checkError;
+    const response = await fetch('/api/ratings', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...await getAuthHeaders()
+      },
+      body: JSON.stringify({ userId, photoId, value })
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to save rating')
     }
     
-    console.log('Existing rating:', existingRating);
-    
-    let result;
+    const { aggregate } = await response.json()
     
-    if (existingRating) {
-      // Update existing rating
-      result = await supabase
-        .from('ratings')
-        .update({ 
-          rating,
-          created_at: new Date().toISOString()
-        })
-        .eq('id', existingRating.id)
-    } else {
-      // Create a new UUID for the rating
-      const ratingId = crypto.randomUUID();
-      
-      // Insert new rating
-      result = await supabase
-        .from('ratings')
-        .insert({
-          id: ratingId,
-          user_id: userId,
-          photo_id: photoId,
-          rating,
-          created_at: new Date().toISOString()
-        })
-    }
-    
-    if (result.error) {
-      console.error('Error saving rating:', result.error);
-      throw result.error;
-    }
-    
-    console.log('Rating saved successfully');
-    
-    // No longer creating notifications for ratings
-    
-    return { success: true }
+    return { success: true, aggregate: aggregate || undefined }
   } catch (error) {
     console.error('Error rating photo:', error)
     return { 
@@ -84,10 +62,10 @@ export async function getUserRating(
   photoId: string
 ): Promise<number | null> {
   try {
-    // Using select('*') instead of select('rating') to avoid 406 error
+    // Raters' justifications can't be read from the browser, so never select('*')
     const { data, error } = await supabase
       .from('ratings')
-      .select('*')
+      .select('rating')
       .eq('user_id', userId)
       .eq('photo_id', photoId)
       .maybeSingle()
@@ -104,36 +82,61 @@ export async function getUserRating(
   }
 }
 
-// Get a user's ratings for multiple photos
+// Get a user's per-dimension scores for a photo
+export async function getUserRatingScores(
+  userId: string, 
+  photoId: string
+): Promise<DimensionScores | null> {
+  try {
+    const { data, error } = await supabase
+      .from('ratings')
+      .select('scores')
+      .eq('user_id', userId)
+      .eq('photo_id', photoId)
+      .maybeSingle()
+    
+    if (error) throw error
+    
+    return data?.scores || null
+  } catch (error) {
+    console.error('Error getting user rating scores:', error)
+    return null
+  }
+}
+
+// Max photo IDs per `in` filter so the request URL stays a reasonable length
+const RATINGS_BATCH_SIZE = 100
+
+// Get a user's ratings for the given photos (typically the ones on screen),
+// as a map of photo_id -> rating. Photos the user hasn't rated are left out.
 export async function getUserRatings(
-  userId: string
+  userId: string,
+  photoIds: string[]
 ): Promise<Record<string, number>> {
   try {
-    // If there are no photos, return an empty object
-    const { data: photos } = await supabase
-      .from('photos')
-      .select('id')
-      .limit(100)
+    const uniqueIds = Array.from(new Set(photoIds))
     
-    if (!photos || photos.length === 0) {
+    if (!userId || uniqueIds.length === 0) {
       return {}
     }
     
-    const photoIds = photos.map(photo => photo.id)
-    
-    const { data, error } = await supabase
-      .from('ratings')
-      .select('photo_id, rating')
-      .eq('user_id', userId)
-      .in('photo_id', photoIds)
-    
-    if (error) throw error
+    const ratingsMap: Record<string, number> = {}
     
-    // Convert array of ratings to a map of photo_id -> rating
-    const ratingsMap = (data || []).reduce((map, item) => {
-      map[item.photo_id] = item.rating
-      return map
-    }, {} as Record<string, number>)
+    for (let i = 0; i < uniqueIds.length; i += RATINGS_BATCH_SIZE) {
+      const batch = uniqueIds.slice(i, i + RATINGS_BATCH_SIZE)
+      
+      const { data, error } = await supabase
+        .from('ratings')
+        .select('photo_id, rating')
+        .eq('user_id', userId)
+        .in('photo_id', batch)
+      
+      if (error) throw error
+      
+      for (const item of data || []) {
+        ratingsMap[item.photo_id] = item.rating
+      }
+    }
     
     return ratingsMap
   } catch (error) {
@@ -142,107 +145,73 @@ export async function getUserRatings(
   }
 }
 
-// Add this function to get user stats
-export async function getUserStats(userId: string): Promise<{
-  totalUploads: number
-  totalRatings: number
-  averageRatingGiven: number
-  averageRatingReceived: number
-  ratingDistribution: {
-    '9-10': number,
-    '7-8': number,
-    '5-6': number,
-    '1-4': number
-  }
-}> {
+// Page through every rating a user has given, as a map of photo_id -> rating
+export async function getAllUserRatings(
+  userId: string,
+  pageSize: number = 1000
+): Promise<Record<string, number>> {
   try {
-    // Get total uploads
-    const { count: totalUploads } = await supabase
-      .from('photos')
-      .select('id', { count: 'exact' })
-      .eq('user_id', userId)
-    
-    // Get total ratings given
-    const { count: totalRatings } = await supabase
-      .from('ratings')
-      .select('id', { count: 'exact' })
-      .eq('user_id', userId)
-    
-    // Get average rating given
-    const { data: ratingsGiven } = await supabase
-      .from('ratings')
-      .select('rating')
-      .eq('user_id', userId)
-    
-    // Get average rating received
-    const { data: userPhotos } = await supabase
-      .from('photos')
-      .select('id')
-      .eq('user_id', userId);
-
-    // Get ratings for user's photos if they exist
-    const photoIds = userPhotos ? userPhotos.map(photo => photo.id) : [];
-
-    const { data: ratingsReceived } = photoIds.length > 0 
-      ? await supabase
-          .from('ratings')
-          .select('rating')
-          .in('photo_id', photoIds)
-      : { data: [] };
-    
-    // Calculate averages
-    const averageRatingGiven = ratingsGiven && ratingsGiven.length > 0
-      ? ratingsGiven.reduce((sum, r) => sum + r.rating, 0) / ratingsGiven.length
-      : 0;
-    
-    const averageRatingReceived = ratingsReceived && ratingsReceived.length > 0
-      ? ratingsReceived.reduce((sum, r) => sum + r.rating, 0) / ratingsReceived.length
-      : 0;
-    
-    // Calculate rating distribution
-    const distribution = {
-      '9-10': 0,
-      '7-8': 0,
-      '5-6': 0,
-      '1-4': 0
-    }
+    const ratingsMap: Record<string, number> = {}
+    let from = 0
     
-    if (ratingsReceived && ratingsReceived.length > 0) {
-      ratingsReceived.forEach(r => {
-        if (r.rating >= 9) distribution['9-10']++
-        else if (r.rating >= 7) distribution['7-8']++
-        else if (r.rating >= 5) distribution['5-6']++
-        else distribution['1-4']++
+    while (true) {
+      const { data, error } = await supabase
+        .from('ratings')
+        .select('photo_id, rating')
+        .eq('user_id', userId)
+        .order('id')
+        .range(from, from + pageSize - 1)
+      
+      if (error) throw error
+      if (!data || data.length === 0) break
+      
+      data.forEach(item => {
+        ratingsMap[item.photo_id] = item.rating
       })
       
-      // Convert to percentages
-      const total = ratingsReceived.length
-      distribution['9-10'] = Math.round((distribution['9-10'] / total) * 100)
-      distribution['7-8'] = Math.round((distribution['7-8'] / total) * 100)
-      distribution['5-6'] = Math.round((distribution['5-6'] / total) * 100)
-      distribution['1-4'] = Math.round((distribution['1-4'] / total) * 100)
+      if (data.length < pageSize) break
+      from += pageSize
     }
     
-    return {
-      totalUploads: totalUploads || 0,
-      totalRatings: totalRatings || 0,
-      averageRatingGiven: parseFloat(averageRatingGiven.toFixed(1)),
-      averageRatingReceived: parseFloat(averageRatingReceived.toFixed(1)),
-      ratingDistribution: distribution
+    return ratingsMap
+  } catch (error) {
+    console.error('Error getting all user ratings:', error)
+    return {}
+  }
+}
+
+// Get the signed-in user's own stats, aggregated on the server
+export async function getUserStats(userId: string): Promise<UserStats> {
+  try {
+    const response = await fetch(`/api/user-stats?userId=${encodeURIComponent(userId)}`, {
+      headers: await getAuthHeaders()
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to load user stats')
     }
+    
+    return await response.json()
   } catch (error) {
     console.error('Error getting user stats:', error)
-    return {
-      totalUploads: 0,
-      totalRatings: 0,
-      averageRatingGiven: 0,
-      averageRatingReceived: 0,
-      ratingDistribution: {
-        '9-10': 0,
-        '7-8': 0,
-        '5-6': 0,
-        '1-4': 0
-      }
+    return EMPTY_USER_STATS
+  }
+}
+
+// Get the top photos and athletes for a period, ranked on the server
+export async function getLeaderboard(period: LeaderboardPeriod): Promise<Leaderboard> {
+  try {
+    const response = await fetch(`/api/leaderboard?period=${period}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to load leaderboard')
     }
+    
+    return await response.json()
+  } catch (error) {
+    console.error('Error getting leaderboard:', error)
+    return { period, photos: [], athletes: [] }
   }
-} 
\ No newline at end of file
+}
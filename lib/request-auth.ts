@@ -0,0 +1,62 @@
+import { type SupabaseClient, type User } from '@supabase/supabase-js'
+
+// Only the part of the client needed to check a token, so callers can pass a stub
+export type AuthVerifier = Pick<SupabaseClient['auth'], 'getUser'>
+
+// Read the access token from an `Authorization: Bearer` header, falling back to
+// the `sb-<project>-auth-token` cookie Supabase's cookie-based clients set
+export function getAccessToken(request: Request): string | null {
+  const header = request.headers.get('authorization')
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim() || null
+  }
+
+  const cookies = request.headers.get('cookie')
+  if (!cookies) return null
+
+  for (const pair of cookies.split(';')) {
+    const [name, ...rest] = pair.trim().split('=')
+    if (!/^sb-.+-auth-token$/.test(name)) continue
+
+    try {
+      let value = decodeURIComponent(rest.join('='))
+      if (value.startsWith('base64-')) {
+        value = Buffer.from(value.slice(7), 'base64').toString('utf8')
+      }
+
+      // Stored either as the session object or as [access_token, refresh_token, ...]
+      const session = JSON.parse(value)
+      const token = Array.isArray(session) ? session[0] : session?.access_token
+      if (typeof token === 'string' && token) return token
+    } catch {
+      // Malformed cookie: treat as signed out
+    }
+  }
+
+  return null
+}
+
+// Resolve the signed-in user behind a request, or null if there is no valid session
+export async function getRequestUser(auth: AuthVerifier, request: Request): Promise<User | null> {
+  const token = getAccessToken(request)
+  if (!token) return null
+
+  const { data, error } = await auth.getUser(token)
+  if (error || !data.user) return null
+
+  return data.user
+}
+
+// Whether the user is on the moderators list. Clients can't read or write that
+// table, so this needs the service role.
+export async function isModerator(client: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('moderators')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+
+  return !!data
+}
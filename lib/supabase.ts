@@ -19,4 +19,10 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   global: {
     fetch: customFetch,
   },
-}); 
\ No newline at end of file
+});
+
+// Authorization header for calls to our own API routes, which check the session
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+} 
\ No newline at end of file
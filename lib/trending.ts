@@ -0,0 +1,72 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { type Photo } from './photo-service'
+
+// How fast age drags a photo down, as in Hacker News' ranking. Higher values
+// favour fresh photos more aggressively.
+export const TRENDING_GRAVITY = 1.8
+
+// Photos older than this are no longer scored and drop to zero
+export const TRENDING_WINDOW_DAYS = 30
+
+// Rows read and written per round trip while recomputing
+const BATCH_SIZE = 200
+
+type TrendingInput = Pick<Photo, 'created_at' | 'votes_count' | 'likes_count' | 'comments_count'>
+
+// Engagement divided by a power of age: (points) / (hours + 2) ^ gravity.
+// Comments take more effort than a vote or like, so they count double.
+export function trendingScore(photo: TrendingInput, now: number = Date.now()): number {
+  const ageHours = Math.max(0, (now - new Date(photo.created_at).getTime()) / 3_600_000)
+  const points = (photo.votes_count || 0) + (photo.likes_count || 0) + 2 * (photo.comments_count || 0)
+
+  return points / Math.pow(ageHours + 2, TRENDING_GRAVITY)
+}
+
+// Recompute `trending_score` for every photo in the window and zero the ones
+// that have aged out. Meant to run on a schedule (see /api/trending).
+export async function recomputeTrendingScores(
+  client: SupabaseClient,
+  now: number = Date.now()
+): Promise<{ updated: number, expired: number }> {
+  const windowStart = new Date(now - TRENDING_WINDOW_DAYS * 24 * 3_600_000).toISOString()
+  let updated = 0
+  let from = 0
+
+  while (true) {
+    const { data, error } = await client
+      .from('photos')
+      .select('id, created_at, votes_count, likes_count, comments_count')
+      .gte('created_at', windowStart)
+      .order('id')
+      .range(from, from + BATCH_SIZE - 1)
+
+    if (error) throw error
+    if (!data || data.length === 0) break
+
+    const results = await Promise.all(data.map(photo =>
+      client
+        .from('photos')
+        .update({ trending_score: trendingScore(photo, now) })
+        .eq('id', photo.id)
+    ))
+
+    const failed = results.find(result => result.error)
+    if (failed?.error) throw failed.error
+
+    updated += data.length
+
+    if (data.length < BATCH_SIZE) break
+    from += BATCH_SIZE
+  }
+
+  const { data: expired, error: expireError } = await client
+    .from('photos')
+    .update({ trending_score: 0 })
+    .lt('created_at', windowStart)
+    .gt('trending_score', 0)
+    .select('id')
+
+  if (expireError) throw expireError
+
+  return { updated, expired: expired?.length || 0 }
+}
@@ -1,5 +1,7 @@
-import { supabase } from './supabase'
+import { supabase, getAuthHeaders } from './supabase'
 import { v4 as uuidv4 } from 'uuid'
+import { DEFAULT_RATING_DIMENSIONS, type RatingDimension } from './rating-dimensions'
+import { normalizeTags } from './photo-tags'
 
 export type UploadPhotoParams = {
   userId: string
@@ -7,6 +9,7 @@ export type UploadPhotoParams = {
   title: string
   description?: string
   tags?: string[]
+  ratingDimensions?: RatingDimension[]
 }
 
 export async function uploadPhoto({
@@ -14,7 +17,8 @@ export async function uploadPhoto({
   file,
   title,
   description,
-  tags = []
+  tags = [],
+  ratingDimensions = DEFAULT_RATING_DIMENSIONS
 }: UploadPhotoParams): Promise<{ success: boolean, photoId?: string, error?: Error }> {
   try {
     if (!userId || !file || !title) {
@@ -36,6 +40,7 @@ export async function uploadPhoto({
     // Use the API route for upload instead of direct Supabase upload
     const response = await fetch('/api/upload', {
       method: 'POST',
+      headers: await getAuthHeaders(),
       body: formData
     })
     
@@ -44,7 +49,7 @@ export async function uploadPhoto({
       throw new Error(errorData.error || 'Failed to upload image')
     }
     
-    const { url } = await response.json()
+    const { url, variants, width, height, blurDataUrl, dominantColor } = await response.json()
     
     if (!url) {
       throw new Error('Failed to get public URL')
@@ -65,8 +70,22 @@ export async function uploadPhoto({
         title,
         description: description || null,
         image_url: url,
+        image_variants: variants || [],
+        image_width: width || null,
+        image_height: height || null,
+        blur_data_url: blurDataUrl || null,
+        dominant_color: dominantColor || null,
         rating: 0.0,
+        calibrated_rating: 0,
         votes_count: 0,
+        rating_sum: 0,
+        weighted_rating: 0,
+        rating_dimensions: ratingDimensions,
+        tags: normalizeTags(tags),
+        dimension_ratings: {},
+        elo_rating: 1500,
+        matchups_count: 0,
+        trending_score: 0,
         likes_count: 0,
         comments_count: 0,
         created_at: now,
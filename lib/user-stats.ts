@@ -0,0 +1,140 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { isRatingDimension, type RatingDimension } from './rating-dimensions'
+import { isFeedbackChip, type ChipCount } from './rating-feedback'
+
+export type UserStats = {
+  totalUploads: number
+  totalRatings: number
+  averageRatingGiven: number
+  averageRatingReceived: number
+  ratingDistribution: {
+    '9-10': number,
+    '7-8': number,
+    '5-6': number,
+    '1-4': number
+  }
+  dimensionAverages: Partial<Record<RatingDimension, number>>
+  topStrengths: ChipCount[]
+  topWeaknesses: ChipCount[]
+}
+
+export const EMPTY_USER_STATS: UserStats = {
+  totalUploads: 0,
+  totalRatings: 0,
+  averageRatingGiven: 0,
+  averageRatingReceived: 0,
+  ratingDistribution: {
+    '9-10': 0,
+    '7-8': 0,
+    '5-6': 0,
+    '1-4': 0
+  },
+  dimensionAverages: {},
+  topStrengths: [],
+  topWeaknesses: []
+}
+
+type RatingBuckets = UserStats['ratingDistribution']
+
+// Most users whose stats are kept in memory; the oldest entry is evicted first
+const STATS_CACHE_SIZE = 1000
+
+// Each user's stats with the user_stats_versions value read before computing
+// them. Triggers bump the version whenever a rating or upload changes what
+// the stats are built from, which invalidates the entry.
+const statsCache = new Map<string, { version: number, stats: UserStats }>()
+
+// What get_user_stats returns (see supabase/migrations)
+export type UserStatsRow = {
+  total_uploads: number
+  total_ratings: number
+  average_given: number
+  received: RatingBuckets & { count: number, average: number }
+  dimension_averages: Record<string, number>
+  strengths: { chip: string, count: number }[]
+  weaknesses: { chip: string, count: number }[]
+}
+
+function topChips(chips: { chip: string, count: number }[]): ChipCount[] {
+  return chips
+    .filter((item): item is ChipCount => isFeedbackChip(item.chip))
+    .slice(0, 5)
+}
+
+// Shape the database aggregate into what the profile page renders
+export function summarizeUserStats(row: UserStatsRow): UserStats {
+  const { received } = row
+  const distribution = { ...EMPTY_USER_STATS.ratingDistribution }
+
+  if (received.count > 0) {
+    // Convert to percentages
+    (Object.keys(distribution) as (keyof RatingBuckets)[]).forEach(bucket => {
+      distribution[bucket] = Math.round((received[bucket] / received.count) * 100)
+    })
+  }
+
+  const dimensionAverages: Partial<Record<RatingDimension, number>> = {}
+
+  Object.entries(row.dimension_averages).forEach(([key, average]) => {
+    if (isRatingDimension(key)) {
+      dimensionAverages[key] = parseFloat(average.toFixed(1))
+    }
+  })
+
+  return {
+    totalUploads: row.total_uploads,
+    totalRatings: row.total_ratings,
+    averageRatingGiven: parseFloat(row.average_given.toFixed(1)),
+    averageRatingReceived: parseFloat(received.average.toFixed(1)),
+    ratingDistribution: distribution,
+    dimensionAverages,
+    topStrengths: topChips(row.strengths),
+    topWeaknesses: topChips(row.weaknesses)
+  }
+}
+
+// Current stats version for a user (see user_stats_versions)
+async function getStatsVersion(client: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await client
+    .from('user_stats_versions')
+    .select('version')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+
+  return data ? Number(data.version) : 0
+}
+
+// Compute a user's stats in the database, reusing the cached result until a
+// new rating or upload bumps their version. Includes the feedback raters left,
+// so only ever return these to the user themselves.
+export async function computeUserStats(
+  client: SupabaseClient,
+  userId: string
+): Promise<UserStats> {
+  // Read before computing, so a rating that lands mid-computation leaves the
+  // entry looking stale rather than fresh
+  const version = await getStatsVersion(client, userId)
+  const cached = statsCache.get(userId)
+
+  if (cached && cached.version === version) {
+    return cached.stats
+  }
+
+  const { data, error } = await client.rpc('get_user_stats', { p_user_id: userId })
+
+  if (error) throw error
+
+  const stats = data ? summarizeUserStats(data) : EMPTY_USER_STATS
+
+  statsCache.delete(userId)
+  statsCache.set(userId, { version, stats })
+
+  if (statsCache.size > STATS_CACHE_SIZE) {
+    const oldest = statsCache.keys().next().value
+    if (oldest !== undefined) statsCache.delete(oldest)
+  }
+
+  return stats
+}
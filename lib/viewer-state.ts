@@ -0,0 +1,103 @@
+import { supabase } from './supabase'
+import { getUserRatings } from './rating-service'
+import { type Photo } from './photo-service'
+
+// What the signed-in viewer has done with a photo, for hydrating PhotoCard
+export type ViewerState = {
+  liked: boolean
+  rating: number | null
+  followingOwner: boolean
+}
+
+export const EMPTY_VIEWER_STATE: ViewerState = {
+  liked: false,
+  rating: null,
+  followingOwner: false
+}
+
+// Max IDs per `in` filter so the request URL stays a reasonable length
+const BATCH_SIZE = 100
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// Photo IDs from the list that the viewer has liked
+async function getLikedPhotoIds(viewerId: string, photoIds: string[]): Promise<Set<string>> {
+  const liked = new Set<string>()
+
+  for (const batch of chunk(photoIds, BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('likes')
+      .select('photo_id')
+      .eq('user_id', viewerId)
+      .in('photo_id', batch)
+
+    if (error) throw error
+
+    for (const like of data || []) {
+      liked.add(like.photo_id)
+    }
+  }
+
+  return liked
+}
+
+// User IDs from the list that the viewer follows
+async function getFollowedUserIds(viewerId: string, userIds: string[]): Promise<Set<string>> {
+  const followed = new Set<string>()
+
+  for (const batch of chunk(userIds, BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('followers')
+      .select('followed_id')
+      .eq('follower_id', viewerId)
+      .in('followed_id', batch)
+
+    if (error) throw error
+
+    for (const follow of data || []) {
+      followed.add(follow.followed_id)
+    }
+  }
+
+  return followed
+}
+
+// Liked, rated and following flags for every photo in one round of batched
+// queries, instead of three requests per card
+export async function getViewerState(
+  viewerId: string,
+  photos: Pick<Photo, 'id' | 'user_id'>[]
+): Promise<Record<string, ViewerState>> {
+  try {
+    if (!viewerId || photos.length === 0) {
+      return {}
+    }
+
+    const photoIds = Array.from(new Set(photos.map(photo => photo.id)))
+    const ownerIds = Array.from(new Set(photos.map(photo => photo.user_id).filter(Boolean)))
+
+    const [liked, ratings, followed] = await Promise.all([
+      getLikedPhotoIds(viewerId, photoIds),
+      getUserRatings(viewerId, photoIds),
+      getFollowedUserIds(viewerId, ownerIds)
+    ])
+
+    return photos.reduce((map, photo) => {
+      map[photo.id] = {
+        liked: liked.has(photo.id),
+        rating: ratings[photo.id] ?? null,
+        followingOwner: followed.has(photo.user_id)
+      }
+      return map
+    }, {} as Record<string, ViewerState>)
+  } catch (error) {
+    console.error('Error fetching viewer state:', error)
+    return {}
+  }
+}
@@ -11,6 +11,7 @@ const nextConfig = {
         pathname: '/**',
       },
     ],
+    // Uploads ship their own resized variants (see lib/image-variants)
     unoptimized: true,
   },
   experimental: {
@@ -14,6 +14,7 @@ const nextConfig = {
     ignoreBuildErrors: true,
   },
   images: {
+    // Uploads ship their own resized variants (see lib/image-variants)
     unoptimized: true,
   },
   experimental: {
@@ -0,0 +1,3 @@
+-- Sum of the scores behind photos.rating, kept alongside votes_count so
+-- site-wide means can be computed from the photo rows alone
+alter table photos add column if not exists rating_sum numeric not null default 0;
@@ -0,0 +1,19 @@
+-- Bayesian average of a photo's calibrated scores against the site-wide mean,
+-- used to rank top_rated so one 10/10 vote can't beat hundreds of 9s
+alter table photos add column if not exists weighted_rating numeric not null default 0;
+
+create index if not exists photos_weighted_rating_idx
+  on photos (weighted_rating desc, votes_count desc, id desc);
+
+-- Site-wide rating settings, a single row. prior_strength is how many
+-- "virtual" votes at the global mean every photo starts with; the aggregate
+-- trigger and the leaderboards both read it. After changing it, rebuild:
+--   select recalculate_photo_aggregate(id) from photos;
+create table if not exists rating_settings (
+  id boolean primary key default true check (id),
+  prior_strength numeric not null default 10 check (prior_strength >= 0)
+);
+
+insert into rating_settings (id) values (true) on conflict (id) do nothing;
+
+revoke insert, update, delete, truncate on rating_settings from anon, authenticated;
@@ -0,0 +1,10 @@
+-- Per-dimension physique scores (see lib/rating-dimensions.ts). A rating keeps
+-- its overall score in `rating`; `scores` is null when the rater gave a single
+-- number instead of scoring each dimension.
+alter table ratings add column if not exists scores jsonb;
+
+-- Dimensions the uploader asked to be rated on; null or empty means all of them
+alter table photos add column if not exists rating_dimensions text[];
+
+-- { "<dimension>": { "average": number, "count": number } } over unflagged ratings
+alter table photos add column if not exists dimension_ratings jsonb not null default '{}'::jsonb;
@@ -0,0 +1,4 @@
+-- Mean of the photo's scores after each rater is normalized against their own
+-- history. photos.rating stays the plain mean of what raters gave. Null until
+-- the photo's aggregate is next recalculated.
+alter table photos add column if not exists calibrated_rating numeric;
@@ -0,0 +1,26 @@
+-- Set by fraud screening (see lib/rating-fraud.ts); flagged ratings are left
+-- out of photo aggregates until a moderator clears them
+alter table ratings add column if not exists is_flagged boolean not null default false;
+
+-- Why a rating was flagged and what a moderator decided
+create table if not exists rating_flags (
+  id uuid primary key default gen_random_uuid(),
+  rating_id uuid not null references ratings (id) on delete cascade,
+  photo_id uuid not null references photos (id) on delete cascade,
+  rater_id uuid not null references auth.users (id) on delete cascade,
+  reasons text[] not null,
+  details text,
+  status text not null default 'pending' check (status in ('pending', 'cleared', 'confirmed')),
+  created_at timestamptz not null default now(),
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_at timestamptz
+);
+
+create index if not exists rating_flags_status_idx on rating_flags (status, created_at);
+create index if not exists rating_flags_rating_id_idx on rating_flags (rating_id);
+
+-- Users allowed to review flags
+create table if not exists moderators (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,17 @@
+-- Head-to-head ladder (see lib/matchup-service.ts). Every photo enters at 1500.
+alter table photos add column if not exists elo_rating integer not null default 1500;
+alter table photos add column if not exists matchups_count integer not null default 0;
+
+create index if not exists photos_elo_rating_idx
+  on photos (elo_rating desc, matchups_count desc, id desc);
+
+-- One row per judged pair: which photo the user picked over which
+create table if not exists matchups (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  winner_id uuid not null references photos (id) on delete cascade,
+  loser_id uuid not null references photos (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists matchups_user_id_idx on matchups (user_id, created_at desc);
@@ -0,0 +1,22 @@
+-- Re-rating keeps the rating's created_at and records when it last changed
+alter table ratings add column if not exists updated_at timestamptz;
+
+-- Append-only log of every change to a rating (see lib/rating-history.ts).
+-- No foreign keys: events outlive the ratings and photos they describe.
+create table if not exists rating_events (
+  id uuid primary key default gen_random_uuid(),
+  rating_id uuid not null,
+  user_id uuid not null,
+  photo_id uuid not null,
+  event_type text not null check (event_type in ('created', 'updated', 'removed')),
+  -- Null for 'removed' events
+  rating integer,
+  scores jsonb,
+  -- The score being replaced, for 'updated' and 'removed' events
+  previous_rating integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rating_events_photo_id_idx on rating_events (photo_id, created_at, id);
+create index if not exists rating_events_rating_id_idx on rating_events (rating_id, created_at, id);
+create index if not exists rating_events_user_photo_idx on rating_events (user_id, photo_id, created_at desc);
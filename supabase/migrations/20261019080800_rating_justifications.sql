@@ -0,0 +1,13 @@
+-- Why a rater gave their score: strength/weakness chips plus a short note
+-- (see lib/rating-feedback.ts)
+alter table ratings add column if not exists strengths text[];
+alter table ratings add column if not exists weaknesses text[];
+alter table ratings add column if not exists feedback text check (char_length(feedback) <= 280);
+
+-- Justifications are for the photo owner and the rater only, and are served
+-- by /api/ratings/feedback and /api/ratings/justification. A column-level
+-- revoke has no effect while the table-level grant stands, so clients get
+-- the table back minus those columns.
+revoke select on ratings from anon, authenticated;
+grant select (id, user_id, photo_id, rating, scores, is_flagged, created_at, updated_at)
+  on ratings to anon, authenticated;
@@ -0,0 +1,4 @@
+-- Time-decayed engagement, recomputed by the /api/trending cron (see lib/trending.ts)
+alter table photos add column if not exists trending_score double precision;
+
+create index if not exists photos_trending_score_idx on photos (trending_score desc, id desc);
@@ -0,0 +1,5 @@
+-- Normalized lowercase tags (see lib/photo-tags.ts)
+alter table photos add column if not exists tags text[];
+
+-- Tag pages filter with `contains` and suggestions with `overlaps`
+create index if not exists photos_tags_idx on photos using gin (tags);
@@ -0,0 +1,18 @@
+-- Full-text document for a photo: title outranks tags, tags outrank the
+-- description. Wrapped in an immutable function because array_to_string is
+-- only stable, which a generated column does not accept.
+create or replace function public.photo_search_document(p_title text, p_description text, p_tags text[])
+returns tsvector
+language sql
+immutable
+set search_path = public
+as $$
+  select setweight(to_tsvector('english', coalesce(p_title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(array_to_string(p_tags, ' '), '')), 'B')
+    || setweight(to_tsvector('english', coalesce(p_description, '')), 'C');
+$$;
+
+alter table photos add column if not exists search_vector tsvector
+  generated always as (photo_search_document(title, description, tags)) stored;
+
+create index if not exists photos_search_vector_idx on photos using gin (search_vector);
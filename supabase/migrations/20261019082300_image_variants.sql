@@ -0,0 +1,3 @@
+-- Resized copies of image_url as [{ url, width, height, format }] (see
+-- lib/image-variants.ts). Null on photos uploaded before variants existed.
+alter table photos add column if not exists image_variants jsonb;
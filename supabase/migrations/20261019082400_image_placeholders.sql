@@ -0,0 +1,7 @@
+-- Stored size and load placeholder, captured at upload. Null on older photos.
+alter table photos add column if not exists image_width integer;
+alter table photos add column if not exists image_height integer;
+-- Tiny blurred WebP preview, inlined as a data URL
+alter table photos add column if not exists blur_data_url text;
+-- '#rrggbb' of the dominant region, shown before even the preview loads
+alter table photos add column if not exists dominant_color text;
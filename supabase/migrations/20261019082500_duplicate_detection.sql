@@ -0,0 +1,42 @@
+-- Perceptual hash of every upload (see lib/duplicate-detection.ts). Keyed by
+-- image URL: the upload route hashes the image before the photo row exists.
+create table if not exists image_hashes (
+  id uuid primary key default gen_random_uuid(),
+  image_url text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- 64-bit dHash as 16 hex digits
+  hash text not null,
+  -- Position-tagged slices of the hash, for the overlap lookup
+  bands text[] not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists image_hashes_image_url_idx on image_hashes (image_url);
+create index if not exists image_hashes_bands_idx on image_hashes using gin (bands);
+
+-- Uploads that look like another user's photo, awaiting moderator review
+create table if not exists photo_flags (
+  id uuid primary key default gen_random_uuid(),
+  image_url text not null,
+  uploader_id uuid not null references auth.users (id) on delete cascade,
+  -- The flag is moot once the photo it was copied from is gone
+  original_photo_id uuid not null references photos (id) on delete cascade,
+  original_uploader_id uuid not null references auth.users (id) on delete cascade,
+  reason text not null check (reason in ('near_duplicate')),
+  -- Bits that differ between the two hashes
+  distance integer not null,
+  details text,
+  status text not null default 'pending' check (status in ('pending', 'cleared', 'confirmed')),
+  created_at timestamptz not null default now(),
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_at timestamptz
+);
+
+create index if not exists photo_flags_status_idx on photo_flags (status, created_at);
+
+-- Only the server (service role) reads or writes either table
+alter table image_hashes enable row level security;
+revoke all on image_hashes from anon, authenticated;
+
+alter table photo_flags enable row level security;
+revoke all on photo_flags from anon, authenticated;
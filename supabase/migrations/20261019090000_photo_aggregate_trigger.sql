@@ -0,0 +1,165 @@
+-- Photo aggregates (rating, votes_count, weighted_rating, ...) are recomputed
+-- inside the transaction that changes a rating, so concurrent raters can't
+-- overwrite each other's results with a stale read.
+--
+-- Calibration lives only here. Each rater's scores are z-normalized against
+-- their own history once they have calibration_min_history ratings, then
+-- re-centred on the site-wide mean, so a harsh rater's 6 and a generous
+-- rater's 10 can count the same.
+
+-- Calibrate the given ratings of a photo and store the aggregate on it.
+-- p_ratings is a jsonb array of { user_id, rating, scores }: the ratings that
+-- count towards the photo. Callers lock the photo row before reading them.
+create or replace function public.store_photo_aggregate(p_photo_id uuid, p_ratings jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  default_prior_strength constant numeric := 10;
+  default_prior_mean constant numeric := 5.5;
+  calibration_min_history constant integer := 5;
+  calibration_target_spread constant numeric := 2;
+
+  prior_strength numeric;
+  prior_mean numeric;
+  votes integer;
+  raw_sum numeric;
+  calibrated_sum numeric;
+  dimensions jsonb;
+  aggregate jsonb;
+begin
+  -- Shared with the leaderboards (see getRatingPriorStrength)
+  select coalesce((select s.prior_strength from rating_settings s), default_prior_strength)
+    into prior_strength;
+
+  -- weighted_rating pulls calibrated sums, so the prior is the mean calibrated
+  -- score. Photos aggregated before calibration existed only have the raw mean.
+  select coalesce(
+      sum(coalesce(calibrated_rating, rating) * votes_count) / nullif(sum(votes_count), 0),
+      default_prior_mean
+    )
+    into prior_mean
+    from photos
+    where votes_count > 0;
+
+  with photo_ratings as (
+    select user_id, rating
+    from jsonb_to_recordset(p_ratings) as r(user_id uuid, rating numeric)
+  ),
+  raters as (
+    select user_id, avg(rating) as mean, stddev_pop(rating) as std_dev, count(*) as history
+    from ratings
+    where user_id in (select user_id from photo_ratings)
+    group by user_id
+  )
+  select
+    count(*),
+    coalesce(sum(r.rating), 0),
+    coalesce(sum(
+      case
+        when p.history is null or p.history < calibration_min_history or p.std_dev = 0 then r.rating
+        else least(10, greatest(1, prior_mean + (r.rating - p.mean) / p.std_dev * calibration_target_spread))
+      end
+    ), 0)
+    into votes, raw_sum, calibrated_sum
+    from photo_ratings r
+    left join raters p using (user_id);
+
+  select coalesce(
+      jsonb_object_agg(key, jsonb_build_object('average', round(average, 2), 'count', scored)),
+      '{}'::jsonb
+    )
+    into dimensions
+    from (
+      select s.key, avg(s.value::numeric) as average, count(*) as scored
+      from jsonb_to_recordset(p_ratings) as r(scores jsonb), jsonb_each_text(r.scores) s
+      where s.key in ('muscularity', 'symmetry', 'conditioning', 'aesthetics')
+        and s.value ~ '^([1-9]|10)$'
+      group by s.key
+    ) d;
+
+  update photos
+    set rating = case when votes = 0 then 0 else round(raw_sum / votes, 2) end,
+        calibrated_rating = case when votes = 0 then 0 else round(calibrated_sum / votes, 2) end,
+        votes_count = votes,
+        rating_sum = raw_sum,
+        -- Rankings use calibrated scores so harsh and generous raters carry equal weight
+        weighted_rating = case
+          when votes = 0 then 0
+          else round((prior_strength * prior_mean + calibrated_sum) / (prior_strength + votes), 4)
+        end,
+        dimension_ratings = dimensions
+    where id = p_photo_id
+    returning jsonb_build_object(
+      'rating', rating,
+      'calibrated_rating', calibrated_rating,
+      'votes_count', votes_count,
+      'rating_sum', rating_sum,
+      'weighted_rating', weighted_rating,
+      'dimension_ratings', dimension_ratings
+    )
+    into aggregate;
+
+  return aggregate;
+end;
+$$;
+
+-- Recompute a photo's aggregate from its current unflagged ratings
+create or replace function public.recalculate_photo_aggregate(p_photo_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Serializes recalculations of the same photo. Every statement below takes a
+  -- fresh snapshot, so a transaction that waited here sees the ratings
+  -- committed by the one it waited for.
+  perform 1 from photos where id = p_photo_id for update;
+
+  if not found then
+    return null;
+  end if;
+
+  return store_photo_aggregate(p_photo_id, (
+    select coalesce(jsonb_agg(jsonb_build_object('user_id', user_id, 'rating', rating, 'scores', scores)), '[]'::jsonb)
+    from ratings
+    where photo_id = p_photo_id
+      and is_flagged is not true
+  ));
+end;
+$$;
+
+create or replace function public.refresh_photo_aggregate()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op <> 'INSERT' then
+    perform recalculate_photo_aggregate(old.photo_id);
+  end if;
+
+  if tg_op = 'INSERT' or (tg_op = 'UPDATE' and new.photo_id <> old.photo_id) then
+    perform recalculate_photo_aggregate(new.photo_id);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists ratings_refresh_photo_aggregate on ratings;
+
+create trigger ratings_refresh_photo_aggregate
+  after insert or delete or update of rating, scores, is_flagged, photo_id on ratings
+  for each row execute function refresh_photo_aggregate();
+
+-- Aggregates are only written by the trigger above and by the service role
+revoke execute on function public.store_photo_aggregate(uuid, jsonb) from public, anon, authenticated;
+revoke execute on function public.recalculate_photo_aggregate(uuid) from public, anon, authenticated;
+
+-- Bring photos rated before the trigger existed up to date
+select recalculate_photo_aggregate(id) from photos;
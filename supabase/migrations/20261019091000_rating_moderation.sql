@@ -0,0 +1,18 @@
+-- Ratings are written through /api/ratings, which screens them for fraud with
+-- the service role, and justifications through /api/ratings/justification.
+-- Clients can't write ratings directly, so they can never touch is_flagged.
+revoke insert, update, delete on ratings from anon, authenticated;
+
+-- Deleting a photo takes its ratings with it, since its owner can no longer
+-- delete them directly
+alter table ratings drop constraint if exists ratings_photo_id_fkey;
+alter table ratings
+  add constraint ratings_photo_id_fkey foreign key (photo_id) references photos (id) on delete cascade;
+
+-- Flags are only read and reviewed through /api/moderation/rating-flags
+alter table rating_flags enable row level security;
+revoke all on rating_flags from anon, authenticated;
+
+-- No policies: only the service role can see or change who moderates
+alter table moderators enable row level security;
+revoke all on moderators from anon, authenticated;
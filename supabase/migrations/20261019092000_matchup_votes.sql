@@ -0,0 +1,170 @@
+-- Pairs handed out by /api/matchups. A vote is only accepted for a pair that
+-- was issued to the voter, once, and both Elo ratings move in the same
+-- transaction as the vote.
+create table if not exists matchup_pairs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  photo_a uuid not null references photos (id) on delete cascade,
+  photo_b uuid not null references photos (id) on delete cascade,
+  issued_at timestamptz not null default now(),
+  judged_at timestamptz
+);
+
+create index if not exists matchup_pairs_user_id_idx on matchup_pairs (user_id, issued_at desc);
+
+alter table matchup_pairs enable row level security;
+revoke all on matchup_pairs from anon, authenticated;
+
+-- Votes are only cast through record_matchup
+revoke insert, update, delete on matchups from anon, authenticated;
+
+-- One vote per user per pair of photos, whichever way round it was shown
+create unique index if not exists matchups_user_pair_idx
+  on matchups (user_id, least(winner_id, loser_id), greatest(winner_id, loser_id));
+
+-- Returns 'recorded', 'not_found', 'already_judged' or 'rate_limited'. Only the
+-- service role may call it: p_user_id is trusted to be the signed-in voter.
+create or replace function public.record_matchup(p_pair_id uuid, p_user_id uuid, p_winner_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  default_elo constant numeric := 1500;
+  provisional_matches constant integer := 30;
+  provisional_k constant numeric := 32;
+  established_k constant numeric := 16;
+  max_votes_per_minute constant integer := 30;
+
+  pair matchup_pairs;
+  loser_photo_id uuid;
+  winner_elo numeric;
+  loser_elo numeric;
+  expected_win numeric;
+begin
+  select * into pair
+    from matchup_pairs
+    where id = p_pair_id and user_id = p_user_id
+    for update;
+
+  if not found or p_winner_id not in (pair.photo_a, pair.photo_b) then
+    return 'not_found';
+  end if;
+
+  loser_photo_id := case when p_winner_id = pair.photo_a then pair.photo_b else pair.photo_a end;
+
+  if pair.judged_at is not null or exists (
+    select 1 from matchups
+    where user_id = p_user_id
+      and least(winner_id, loser_id) = least(pair.photo_a, pair.photo_b)
+      and greatest(winner_id, loser_id) = greatest(pair.photo_a, pair.photo_b)
+  ) then
+    return 'already_judged';
+  end if;
+
+  if (
+    select count(*) from matchups
+    where user_id = p_user_id and created_at > now() - interval '1 minute'
+  ) >= max_votes_per_minute then
+    return 'rate_limited';
+  end if;
+
+  -- Lock both photos in a fixed order so concurrent votes can't deadlock
+  perform 1 from photos where id in (pair.photo_a, pair.photo_b) order by id for update;
+
+  select coalesce(elo_rating, default_elo) into winner_elo from photos where id = p_winner_id;
+  select coalesce(elo_rating, default_elo) into loser_elo from photos where id = loser_photo_id;
+
+  expected_win := 1 / (1 + power(10, (loser_elo - winner_elo) / 400));
+
+  -- Photos move quickly while their rating is still uncertain, then settle down
+  update photos
+    set elo_rating = round(
+          coalesce(elo_rating, default_elo) +
+          case when coalesce(matchups_count, 0) < provisional_matches then provisional_k else established_k end
+            * (case when id = p_winner_id then 1 - expected_win else expected_win - 1 end)
+        ),
+        matchups_count = coalesce(matchups_count, 0) + 1
+    where id in (p_winner_id, loser_photo_id);
+
+  insert into matchups (id, user_id, winner_id, loser_id, created_at)
+    values (gen_random_uuid(), p_user_id, p_winner_id, loser_photo_id, now());
+
+  update matchup_pairs set judged_at = now() where id = p_pair_id;
+
+  return 'recorded';
+end;
+$$;
+
+revoke execute on function public.record_matchup(uuid, uuid, uuid) from public, anon, authenticated;
+
+-- Issue the next pair for a user to judge: one of the least-played photos,
+-- against the closest-rated opponent the user hasn't judged it against yet.
+-- Judged pairs are excluded across the user's whole history, and every photo
+-- is a candidate, so a pair is found as long as one is left. Returns no rows
+-- when the user has judged every pair. Service role only, like record_matchup.
+create or replace function public.issue_matchup_pair(p_user_id uuid)
+returns setof matchup_pairs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  default_elo constant numeric := 1500;
+  -- Pick randomly among this many of the least-played photos so everyone
+  -- doesn't get the same first photo
+  first_pick_pool constant integer := 10;
+
+  first_photo photos;
+  opponent_id uuid;
+begin
+  select p.* into first_photo
+    from (
+      select c.*
+      from photos c
+      where c.user_id <> p_user_id
+        and exists (
+          select 1 from photos o
+          where o.id <> c.id
+            and o.user_id <> c.user_id
+            and o.user_id <> p_user_id
+            and not exists (
+              select 1 from matchups m
+              where m.user_id = p_user_id
+                and least(m.winner_id, m.loser_id) = least(c.id, o.id)
+                and greatest(m.winner_id, m.loser_id) = greatest(c.id, o.id)
+            )
+        )
+      order by c.matchups_count, c.id
+      limit first_pick_pool
+    ) p
+    order by random()
+    limit 1;
+
+  if not found then
+    return;
+  end if;
+
+  select o.id into opponent_id
+    from photos o
+    where o.id <> first_photo.id
+      and o.user_id <> first_photo.user_id
+      and o.user_id <> p_user_id
+      and not exists (
+        select 1 from matchups m
+        where m.user_id = p_user_id
+          and least(m.winner_id, m.loser_id) = least(first_photo.id, o.id)
+          and greatest(m.winner_id, m.loser_id) = greatest(first_photo.id, o.id)
+      )
+    order by abs(coalesce(o.elo_rating, default_elo) - coalesce(first_photo.elo_rating, default_elo)), o.id
+    limit 1;
+
+  return query
+    insert into matchup_pairs (user_id, photo_a, photo_b)
+    values (p_user_id, first_photo.id, opponent_id)
+    returning *;
+end;
+$$;
+
+revoke execute on function public.issue_matchup_pair(uuid) from public, anon, authenticated;
@@ -0,0 +1,105 @@
+-- Every change to a rating is logged by a trigger in the same transaction, so
+-- the log can't miss a write the ratings table saw. clock_timestamp() rather
+-- than now() keeps events from one transaction (e.g. deleting a photo) ordered.
+create or replace function public.log_rating_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    insert into rating_events (id, rating_id, user_id, photo_id, event_type, rating, scores, previous_rating, created_at)
+      values (gen_random_uuid(), old.id, old.user_id, old.photo_id, 'removed', null, null, old.rating, clock_timestamp());
+  else
+    insert into rating_events (id, rating_id, user_id, photo_id, event_type, rating, scores, previous_rating, created_at)
+      values (
+        gen_random_uuid(),
+        new.id,
+        new.user_id,
+        new.photo_id,
+        case when tg_op = 'INSERT' then 'created' else 'updated' end,
+        new.rating,
+        new.scores,
+        case when tg_op = 'UPDATE' then old.rating end,
+        clock_timestamp()
+      );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists ratings_log_event on ratings;
+
+create trigger ratings_log_event
+  after insert or delete or update of rating, scores on ratings
+  for each row execute function log_rating_event();
+
+-- The log is append-only: only the trigger above writes to it
+revoke insert, update, delete, truncate on rating_events from anon, authenticated, service_role;
+
+-- Seed a 'created' event for ratings saved before the log existed. If the
+-- rating has been changed since, its first logged event remembers the
+-- original score; the original dimension scores are lost.
+insert into rating_events (id, rating_id, user_id, photo_id, event_type, rating, scores, previous_rating, created_at)
+select
+  gen_random_uuid(),
+  r.id,
+  r.user_id,
+  r.photo_id,
+  'created',
+  coalesce(first_event.previous_rating, r.rating),
+  case when first_event.id is null then r.scores end,
+  null,
+  r.created_at
+from ratings r
+left join lateral (
+  select e.id, e.previous_rating
+  from rating_events e
+  where e.rating_id = r.id
+  order by e.created_at, e.id
+  limit 1
+) first_event on true
+where not exists (
+  select 1 from rating_events e
+  where e.rating_id = r.id and e.event_type = 'created'
+);
+
+-- Rebuild a photo's aggregate from its event log rather than the ratings
+-- table: each rating's latest event decides whether it still counts and with
+-- what score. Replaying the same log gives the same ratings every time, which
+-- are then calibrated exactly as the ratings trigger does. Ratings currently
+-- held back by fraud screening stay excluded. To rebuild every photo:
+--   select rebuild_photo_aggregate_from_events(id) from photos;
+create or replace function public.rebuild_photo_aggregate_from_events(p_photo_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from photos where id = p_photo_id for update;
+
+  if not found then
+    return null;
+  end if;
+
+  return store_photo_aggregate(p_photo_id, (
+    select coalesce(jsonb_agg(jsonb_build_object('user_id', e.user_id, 'rating', e.rating, 'scores', e.scores)), '[]'::jsonb)
+    from (
+      select distinct on (rating_id) rating_id, user_id, event_type, rating, scores
+      from rating_events
+      where photo_id = p_photo_id
+      order by rating_id, created_at desc, id desc
+    ) e
+    where e.event_type <> 'removed'
+      and not exists (
+        select 1 from ratings r
+        where r.id = e.rating_id and r.is_flagged
+      )
+  ));
+end;
+$$;
+
+revoke execute on function public.rebuild_photo_aggregate_from_events(uuid) from public, anon, authenticated;
@@ -0,0 +1,132 @@
+-- Profile stats aggregated in the database (see computeUserStats). Includes
+-- the feedback chips raters picked, which only the owner may see, so only the
+-- service role can call it.
+create or replace function public.get_user_stats(p_user_id uuid)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  with received as (
+    select r.rating, r.scores, r.strengths, r.weaknesses
+    from ratings r
+    join photos p on p.id = r.photo_id
+    where p.user_id = p_user_id
+  ),
+  dimension_averages as (
+    select s.key, avg(s.value::numeric) as average
+    from received r, jsonb_each_text(r.scores) s
+    where s.value ~ '^([1-9]|10)$'
+    group by s.key
+  ),
+  strengths as (
+    select chip, count(*) as count
+    from received r, unnest(r.strengths) chip
+    group by chip
+  ),
+  weaknesses as (
+    select chip, count(*) as count
+    from received r, unnest(r.weaknesses) chip
+    group by chip
+  )
+  select jsonb_build_object(
+    'total_uploads', (select count(*) from photos where user_id = p_user_id),
+    'total_ratings', (select count(*) from ratings where user_id = p_user_id),
+    'average_given', (select coalesce(avg(rating), 0) from ratings where user_id = p_user_id),
+    'received', (
+      select jsonb_build_object(
+        'count', count(*),
+        'average', coalesce(avg(rating), 0),
+        '9-10', count(*) filter (where rating >= 9),
+        '7-8', count(*) filter (where rating between 7 and 8),
+        '5-6', count(*) filter (where rating between 5 and 6),
+        '1-4', count(*) filter (where rating <= 4)
+      )
+      from received
+    ),
+    'dimension_averages', (select coalesce(jsonb_object_agg(key, average), '{}'::jsonb) from dimension_averages),
+    'strengths', (
+      select coalesce(jsonb_agg(jsonb_build_object('chip', chip, 'count', count) order by count desc), '[]'::jsonb)
+      from strengths
+    ),
+    'weaknesses', (
+      select coalesce(jsonb_agg(jsonb_build_object('chip', chip, 'count', count) order by count desc), '[]'::jsonb)
+      from weaknesses
+    )
+  );
+$$;
+
+revoke execute on function public.get_user_stats(uuid) from public, anon, authenticated;
+
+-- Bumped whenever something behind a user's stats changes. computeUserStats
+-- caches each user's stats alongside the version it read first, and serves
+-- the cached copy only while the version is unchanged.
+create table if not exists user_stats_versions (
+  user_id uuid primary key,
+  version bigint not null default 0,
+  changed_at timestamptz not null default now()
+);
+
+alter table user_stats_versions enable row level security;
+revoke all on user_stats_versions from anon, authenticated;
+
+create or replace function public.bump_user_stats_versions(p_user_ids uuid[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  -- Sorted so two transactions bumping the same users can't deadlock
+  insert into user_stats_versions (user_id, version, changed_at)
+  select distinct id, 1, now() from unnest(p_user_ids) id where id is not null order by id
+  on conflict (user_id) do update
+    set version = user_stats_versions.version + 1,
+        changed_at = excluded.changed_at;
+$$;
+
+revoke execute on function public.bump_user_stats_versions(uuid[]) from public, anon, authenticated;
+
+-- A rating changes the stats of the rater and of the photo's owner
+create or replace function public.invalidate_rating_user_stats()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op <> 'INSERT' then
+    perform bump_user_stats_versions(array[old.user_id, (select user_id from photos where id = old.photo_id)]);
+  end if;
+
+  if tg_op <> 'DELETE' then
+    perform bump_user_stats_versions(array[new.user_id, (select user_id from photos where id = new.photo_id)]);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists ratings_invalidate_user_stats on ratings;
+
+create trigger ratings_invalidate_user_stats
+  after insert or delete or update of rating, scores, strengths, weaknesses, photo_id on ratings
+  for each row execute function invalidate_rating_user_stats();
+
+-- Uploads and deletions change the owner's upload count
+create or replace function public.invalidate_photo_user_stats()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform bump_user_stats_versions(array[coalesce(new.user_id, old.user_id)]);
+  return null;
+end;
+$$;
+
+drop trigger if exists photos_invalidate_user_stats on photos;
+
+create trigger photos_invalidate_user_stats
+  after insert or delete on photos
+  for each row execute function invalidate_photo_user_stats();
@@ -0,0 +1,4 @@
+-- Photos uploaded before the trending job first ran have no score. Give them
+-- the score of a photo that isn't trending so they sort with those photos.
+update photos set trending_score = 0 where trending_score is null;
+alter table photos alter column trending_score set default 0;
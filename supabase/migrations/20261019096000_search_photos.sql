@@ -0,0 +1,15 @@
+-- Full-text photo search ranked by ts_rank over `search_vector` (title,
+-- description and tags). Returns photos, so callers can embed the uploader and
+-- add filters or a different order on top (see runPhotoSearch).
+create or replace function public.search_photos(p_query text)
+returns setof photos
+language sql
+stable
+set search_path = public
+as $$
+  select p.*
+  from photos p, websearch_to_tsquery('english', p_query) q
+  where p.search_vector @@ q
+  -- Quality breaks ties between equally relevant photos
+  order by ts_rank(p.search_vector, q) desc, p.weighted_rating desc nulls last, p.id desc;
+$$;
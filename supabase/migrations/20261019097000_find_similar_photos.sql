@@ -0,0 +1,24 @@
+-- Near-duplicate lookup for uploads (see findSimilarPhotos). A single 8-bit
+-- band matches a few percent of all stored hashes, so the exact Hamming
+-- distance is computed here instead of shipping every candidate to the server.
+create or replace function public.find_similar_photos(p_hash text, p_bands text[], p_max_distance integer)
+returns table (photo_id uuid, user_id uuid, distance integer)
+language sql
+stable
+set search_path = public
+as $$
+  select p.id, h.user_id, d.distance
+  from image_hashes h
+  -- Hashes whose photo was never created or has since been deleted drop out here
+  join photos p on p.image_url = h.image_url
+  cross join lateral (
+    select bit_count(('x' || h.hash)::bit(64) # ('x' || p_hash)::bit(64))::integer as distance
+  ) d
+  -- Any hash within p_max_distance shares a band with p_hash, so the indexed
+  -- overlap check only skips rows the distance filter would reject anyway
+  where h.bands && p_bands
+    and d.distance <= p_max_distance
+  order by d.distance, h.created_at, p.id;
+$$;
+
+revoke execute on function public.find_similar_photos(text, text[], integer) from public, anon, authenticated;